@@ -0,0 +1,239 @@
+/**
+ * States of a circuit breaker
+ *  - closed: Fetcher processes run as normal
+ *  - open: Fetcher processes are blocked until the cooldown has passed
+ *  - half-open: A single probe is let through to determine if the circuit should close
+ */
+export type CircuitState = "closed" | "open" | "half-open";
+
+/**
+ * Configurable parameters for tripping a circuit breaker
+ */
+export interface CircuitBreakerParams {
+  /**
+   * Number of consecutive failures before tripping the circuit (defaults
+   * to 5 when no failure rate is defined)
+   */
+  consecutiveFailures?: number;
+
+  /**
+   * Rate of failures (0-1) within the window before tripping the circuit
+   */
+  failureRate?: number;
+
+  /**
+   * Number of most recent outcomes the failure rate is calculated on (defaults to 20)
+   */
+  windowSize?: number;
+
+  /**
+   * Minimum number of outcomes in the window before the failure
+   * rate is considered (defaults to 10)
+   */
+  minimumRequests?: number;
+
+  /**
+   * Number of milliseconds the circuit stays open before letting
+   * a single probe through (defaults to 5000)
+   */
+  cooldown?: number;
+
+  /**
+   * Trips the circuit per subqueue rather than for the entire valve
+   */
+  perSubqueue?: boolean;
+
+  /**
+   * Determines which errors count as failures (defaults to all errors)
+   */
+  isFailure?: (error: Error) => boolean;
+}
+
+/**
+ * Tracks fetcher outcomes, blocking new fetcher runs once failures pass the
+ * configured threshold until a probe succeeds after the cooldown
+ */
+export class CircuitBreaker {
+  /**
+   * Current (stored) state of the circuit
+   * @type {CircuitState}
+   * @private
+   */
+  private status: CircuitState = "closed";
+
+  /**
+   * Number of failures in a row while closed
+   * @type {number}
+   * @private
+   */
+  private failureStreak = 0;
+
+  /**
+   * Most recent outcomes while closed (true for failures)
+   * @type {boolean[]}
+   * @private
+   */
+  private outcomes: boolean[] = [];
+
+  /**
+   * Timestamp of when the circuit was last opened
+   * @type {number}
+   * @private
+   */
+  private openedAt = 0;
+
+  /**
+   * Reference to the fetcher run acting as the half-open probe
+   * @type {object | undefined}
+   * @private
+   */
+  private probe?: object;
+
+  /**
+   * Creates a closed circuit breaker
+   * @param {CircuitBreakerParams} params Circuit breaker configuration
+   */
+  constructor(private readonly params: CircuitBreakerParams) {}
+
+  /**
+   * Current state of the circuit, open circuits are reported as
+   * half-open once the cooldown has passed
+   * @type {CircuitState}
+   */
+  public get state(): CircuitState {
+    if (this.status === "open" && this.cooldownPassed()) {
+      return "half-open";
+    }
+
+    return this.status;
+  }
+
+  /**
+   * Indicates if the circuit is closed without any recent failures
+   * @type {boolean}
+   */
+  public get healthy(): boolean {
+    return this.status === "closed" && !this.outcomes.includes(true);
+  }
+
+  /**
+   * Determines if a fetcher run may start, claiming the
+   * probe when the circuit is half-open
+   * @param {object} run Reference to the fetcher run
+   * @returns {boolean} True/False indicating if the run may start
+   */
+  public tryAcquire(run: object): boolean {
+    if (this.status === "closed") {
+      return true;
+    } else if (this.status === "open" && !this.cooldownPassed()) {
+      return false;
+    }
+
+    this.status = "half-open";
+    if (!this.probe) {
+      this.probe = run;
+    }
+
+    return this.probe === run;
+  }
+
+  /**
+   * Releases the probe claimed by the run specified, so that another
+   * run may probe the circuit (used when runs are abandoned)
+   * @param {object} run Reference to the fetcher run
+   */
+  public release(run: object): void {
+    if (this.probe === run) {
+      this.probe = undefined;
+    }
+  }
+
+  /**
+   * Records a successful outcome, closing the circuit when half-open
+   */
+  public recordSuccess(): void {
+    if (this.status === "half-open") {
+      this.close();
+    } else if (this.status === "closed") {
+      this.failureStreak = 0;
+      this.pushOutcome(false);
+      this.evaluate();
+    }
+  }
+
+  /**
+   * Records a failed outcome, tripping the circuit when half-open or
+   * once the failures pass the configured threshold
+   * @param {Error} error Error raised by the fetcher process
+   */
+  public recordFailure(error: Error): void {
+    if (this.params.isFailure && !this.params.isFailure(error)) {
+      this.recordSuccess();
+    } else if (this.status === "half-open") {
+      this.trip();
+    } else if (this.status === "closed") {
+      this.failureStreak++;
+      this.pushOutcome(true);
+      this.evaluate();
+    }
+  }
+
+  /**
+   * Trips the circuit once the failures pass the configured threshold
+   */
+  private evaluate(): void {
+    const { consecutiveFailures, failureRate, minimumRequests } = this.params;
+    const streakLimit =
+      consecutiveFailures ?? (failureRate === undefined ? 5 : undefined);
+
+    if (streakLimit !== undefined && this.failureStreak >= streakLimit) {
+      this.trip();
+    } else if (
+      failureRate !== undefined &&
+      this.outcomes.length >= (minimumRequests ?? 10) &&
+      this.outcomes.filter(Boolean).length / this.outcomes.length >= failureRate
+    ) {
+      this.trip();
+    }
+  }
+
+  /**
+   * Opens the circuit, starting the cooldown
+   */
+  private trip(): void {
+    this.status = "open";
+    this.openedAt = Date.now();
+    this.probe = undefined;
+    this.failureStreak = 0;
+    this.outcomes = [];
+  }
+
+  /**
+   * Closes the circuit, clearing out any failure history
+   */
+  private close(): void {
+    this.status = "closed";
+    this.probe = undefined;
+    this.failureStreak = 0;
+    this.outcomes = [];
+  }
+
+  /**
+   * Determines if the cooldown of an open circuit has passed
+   * @returns {boolean} True/False indicating if a probe may be let through
+   */
+  private cooldownPassed(): boolean {
+    return Date.now() - this.openedAt >= (this.params.cooldown ?? 5000);
+  }
+
+  /**
+   * Adds an outcome to the rolling window
+   * @param {boolean} failure Indicates if the outcome was a failure
+   */
+  private pushOutcome(failure: boolean): void {
+    this.outcomes.push(failure);
+    if (this.outcomes.length > (this.params.windowSize ?? 20)) {
+      this.outcomes.shift();
+    }
+  }
+}
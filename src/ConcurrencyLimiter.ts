@@ -0,0 +1,103 @@
+/**
+ * Limits the number of fetcher invocations running at the same time, holding
+ * any invocations beyond the limit in a first in first out pending queue
+ */
+export class ConcurrencyLimiter {
+  /**
+   * Number of invocations currently holding a slot
+   * @type {number}
+   * @private
+   */
+  private running = 0;
+
+  /**
+   * Callbacks of invocations waiting on a slot, ordered from oldest to newest
+   * @type {Function[]}
+   * @readonly
+   * @private
+   */
+  private readonly pending: Array<() => void> = [];
+
+  /**
+   * Creates a concurrency limiter
+   * @param {number} maxConcurrency Maximum number of invocations running at the same time
+   * @param {number} [maxPending] Maximum number of invocations waiting on a slot
+   */
+  constructor(
+    public readonly maxConcurrency: number,
+    public readonly maxPending?: number
+  ) {}
+
+  /**
+   * Number of invocations currently running
+   * @type {number}
+   */
+  public get active(): number {
+    return this.running;
+  }
+
+  /**
+   * Number of invocations waiting on a slot
+   * @type {number}
+   */
+  public get queued(): number {
+    return this.pending.length;
+  }
+
+  /**
+   * Indicates if every slot is taken and the pending queue is full
+   * @type {boolean}
+   */
+  public get saturated(): boolean {
+    return (
+      this.running >= this.maxConcurrency &&
+      this.maxPending !== undefined &&
+      this.pending.length >= this.maxPending
+    );
+  }
+
+  /**
+   * Waits for a free slot, leaving the pending queue early when the signal is aborted
+   * @param {AbortSignal} [signal] Signal for leaving the pending queue
+   * @returns {Promise<boolean>} True once a slot is taken, False if aborted while waiting
+   */
+  public acquire(signal?: AbortSignal): Promise<boolean> {
+    if (signal?.aborted) {
+      return Promise.resolve(false);
+    } else if (this.running < this.maxConcurrency) {
+      this.running++;
+      return Promise.resolve(true);
+    }
+
+    return new Promise<boolean>((resolve) => {
+      const onAbort = () => {
+        const index = this.pending.indexOf(next);
+        if (index > -1) {
+          this.pending.splice(index, 1);
+        }
+        resolve(false);
+      };
+
+      // Slot is handed over directly by the releasing invocation
+      const next = () => {
+        signal?.removeEventListener("abort", onAbort);
+        resolve(true);
+      };
+
+      this.pending.push(next);
+      signal?.addEventListener("abort", onAbort);
+    });
+  }
+
+  /**
+   * Frees a slot, handing it to the oldest pending invocation
+   */
+  public release(): void {
+    const next = this.pending.shift();
+    if (next) {
+      next();
+    } else {
+      this.running--;
+    }
+  }
+}
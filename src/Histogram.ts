@@ -0,0 +1,107 @@
+/**
+ * Point in time view of a histogram, bucket counts are cumulative
+ * (each bucket includes every observation less than or equal to its bound)
+ */
+export interface HistogramSnapshot {
+  count: number;
+  sum: number;
+  min: number;
+  max: number;
+  buckets: Array<{ le: number; count: number }>;
+}
+
+/**
+ * Fixed bucket distribution of observed values
+ */
+export class Histogram {
+  /**
+   * Number of observations falling into each bucket (last bucket catches everything above)
+   * @type {number[]}
+   * @private
+   */
+  private counts: number[];
+
+  /**
+   * Number of observations
+   * @type {number}
+   * @private
+   */
+  private count = 0;
+
+  /**
+   * Sum of every observation
+   * @type {number}
+   * @private
+   */
+  private sum = 0;
+
+  /**
+   * Smallest observation
+   * @type {number}
+   * @private
+   */
+  private min = Infinity;
+
+  /**
+   * Largest observation
+   * @type {number}
+   * @private
+   */
+  private max = -Infinity;
+
+  /**
+   * Creates an empty histogram
+   * @param {number[]} bounds Upper bounds of each bucket, in ascending order
+   */
+  constructor(public readonly bounds: number[]) {
+    this.counts = new Array(bounds.length + 1).fill(0);
+  }
+
+  /**
+   * Records a single observation
+   * @param {number} value Observed value
+   */
+  public observe(value: number): void {
+    let index = 0;
+    while (index < this.bounds.length && value > this.bounds[index]) {
+      index++;
+    }
+
+    this.counts[index]++;
+    this.count++;
+    this.sum += value;
+    this.min = Math.min(this.min, value);
+    this.max = Math.max(this.max, value);
+  }
+
+  /**
+   * Creates a point in time view of the histogram
+   * @returns {HistogramSnapshot} Cumulative view of the observations
+   */
+  public snapshot(): HistogramSnapshot {
+    let cumulative = 0;
+    const buckets = [...this.bounds, Infinity].map((le, index) => {
+      cumulative += this.counts[index];
+      return { le, count: cumulative };
+    });
+
+    return {
+      count: this.count,
+      sum: this.sum,
+      min: this.count > 0 ? this.min : 0,
+      max: this.count > 0 ? this.max : 0,
+      buckets,
+    };
+  }
+
+  /**
+   * Clears every observation
+   */
+  public reset(): void {
+    this.counts = new Array(this.bounds.length + 1).fill(0);
+    this.count = 0;
+    this.sum = 0;
+    this.min = Infinity;
+    this.max = -Infinity;
+  }
+}
@@ -0,0 +1,258 @@
+import { IncomingMessage, ServerResponse } from "http";
+import { HistogramSnapshot } from "./Histogram";
+import { BurstValveStats } from "./StatsCollector";
+
+/**
+ * Any valve (or valve like object) exposing a statistics snapshot
+ */
+export interface StatsSource {
+  stats(): BurstValveStats;
+}
+
+/**
+ * Content type of the prometheus text exposition format
+ */
+export const PROMETHEUS_CONTENT_TYPE =
+  "text/plain; version=0.0.4; charset=utf-8";
+
+/**
+ * Escapes a label value for the prometheus text format
+ * @param {string} value Raw label value
+ * @returns {string} Escaped label value
+ */
+const escapeLabel = (value: string): string =>
+  value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+
+/**
+ * Formats a number for the prometheus text format
+ * @param {number} value Raw number
+ * @returns {string} Formatted number
+ */
+const formatValue = (value: number): string =>
+  value === Infinity ? "+Inf" : String(value);
+
+/**
+ * Adds the observations of two histograms with the same bucket bounds together
+ * @param {HistogramSnapshot} a First histogram
+ * @param {HistogramSnapshot} b Second histogram
+ * @returns {HistogramSnapshot} Combined histogram
+ */
+const mergeHistograms = (
+  a: HistogramSnapshot,
+  b: HistogramSnapshot
+): HistogramSnapshot => ({
+  count: a.count + b.count,
+  sum: a.sum + b.sum,
+  min: Math.min(a.min, b.min),
+  max: Math.max(a.max, b.max),
+  buckets: a.buckets.map(({ le, count }) => ({
+    le,
+    count: count + (b.buckets.find((bucket) => bucket.le === le)?.count ?? 0),
+  })),
+});
+
+/**
+ * Sums the statistics of valves sharing a display name, so that every
+ * series is rendered once per label set
+ * @param {BurstValveStats[]} stats Statistics of each valve
+ * @returns {BurstValveStats[]} Statistics of each display name, in order of first appearance
+ */
+const sumByDisplayName = (stats: BurstValveStats[]): BurstValveStats[] => {
+  const totals = new Map<string, BurstValveStats>();
+  stats.forEach((stat) => {
+    const total = totals.get(stat.displayName);
+    totals.set(
+      stat.displayName,
+      total
+        ? {
+            displayName: stat.displayName,
+            calls: total.calls + stat.calls,
+            fetches: total.fetches + stat.fetches,
+            coalesced: total.coalesced + stat.coalesced,
+            errors: total.errors + stat.errors,
+            batchSizes: mergeHistograms(total.batchSizes, stat.batchSizes),
+            latency: mergeHistograms(total.latency, stat.latency),
+            activeQueues: total.activeQueues + stat.activeQueues,
+            waiters: total.waiters + stat.waiters,
+            maxWaiters: Math.max(total.maxWaiters, stat.maxWaiters),
+            pendingFetches: total.pendingFetches + stat.pendingFetches,
+          }
+        : stat
+    );
+  });
+
+  return [...totals.values()];
+};
+
+/**
+ * Renders the statistics of a set of valves in the prometheus text exposition format
+ */
+export class PrometheusExporter {
+  /**
+   * Valves being exported
+   * @type {Set}
+   * @readonly
+   * @private
+   */
+  private readonly valves: Set<StatsSource>;
+
+  /**
+   * Creates an exporter for the valves specified
+   * @param {StatsSource[]} [valves] Valves to export
+   * @param {string} [prefix] Prefix of every metric name (defaults to burst_valve)
+   */
+  constructor(
+    valves: StatsSource[] = [],
+    public readonly prefix = "burst_valve"
+  ) {
+    this.valves = new Set(valves);
+  }
+
+  /**
+   * Adds a valve to the export
+   * @param {StatsSource} valve Valve to export
+   */
+  public register(valve: StatsSource): void {
+    this.valves.add(valve);
+  }
+
+  /**
+   * Removes a valve from the export
+   * @param {StatsSource} valve Valve to stop exporting
+   */
+  public unregister(valve: StatsSource): void {
+    this.valves.delete(valve);
+  }
+
+  /**
+   * Renders the statistics of every registered valve, labelled by display name.
+   * Valves sharing a display name are summed into a single series
+   * @returns {string} Metrics in the prometheus text exposition format
+   */
+  public render(): string {
+    const stats = sumByDisplayName(
+      [...this.valves].map((valve) => valve.stats())
+    );
+    const lines: string[] = [];
+
+    const scalar = (
+      name: string,
+      type: "counter" | "gauge",
+      help: string,
+      value: (stat: BurstValveStats) => number
+    ) => {
+      lines.push(`# HELP ${this.prefix}_${name} ${help}`);
+      lines.push(`# TYPE ${this.prefix}_${name} ${type}`);
+      stats.forEach((stat) => {
+        lines.push(
+          `${this.prefix}_${name}{display_name="${escapeLabel(
+            stat.displayName
+          )}"} ${formatValue(value(stat))}`
+        );
+      });
+    };
+
+    const histogram = (
+      name: string,
+      help: string,
+      scale: number,
+      value: (stat: BurstValveStats) => HistogramSnapshot
+    ) => {
+      lines.push(`# HELP ${this.prefix}_${name} ${help}`);
+      lines.push(`# TYPE ${this.prefix}_${name} histogram`);
+      stats.forEach((stat) => {
+        const label = `display_name="${escapeLabel(stat.displayName)}"`;
+        const snapshot = value(stat);
+
+        snapshot.buckets.forEach(({ le, count }) => {
+          lines.push(
+            `${this.prefix}_${name}_bucket{${label},le="${formatValue(
+              le / scale
+            )}"} ${count}`
+          );
+        });
+        lines.push(
+          `${this.prefix}_${name}_sum{${label}} ${snapshot.sum / scale}`
+        );
+        lines.push(`${this.prefix}_${name}_count{${label}} ${snapshot.count}`);
+      });
+    };
+
+    scalar(
+      "calls_total",
+      "counter",
+      "Number of fetch, batch, unsafeBatch and stream calls",
+      (stat) => stat.calls
+    );
+    scalar(
+      "fetches_total",
+      "counter",
+      "Number of fetcher process invocations",
+      (stat) => stat.fetches
+    );
+    scalar(
+      "coalesced_total",
+      "counter",
+      "Number of callers that joined an already active queue",
+      (stat) => stat.coalesced
+    );
+    scalar(
+      "errors_total",
+      "counter",
+      "Number of errors sent to queues",
+      (stat) => stat.errors
+    );
+    histogram(
+      "fetch_duration_seconds",
+      "Duration of fetcher process invocations",
+      1000,
+      (stat) => stat.latency
+    );
+    histogram(
+      "batch_size",
+      "Number of keys passed to each batch fetcher invocation",
+      1,
+      (stat) => stat.batchSizes
+    );
+    scalar(
+      "active_queues",
+      "gauge",
+      "Number of queues (and subqueues) with an in-flight fetcher run",
+      (stat) => stat.activeQueues
+    );
+    scalar(
+      "waiters",
+      "gauge",
+      "Number of callers waiting on in-flight fetcher runs",
+      (stat) => stat.waiters
+    );
+    scalar(
+      "pending_fetches",
+      "gauge",
+      "Number of fetcher invocations waiting on the concurrency limit",
+      (stat) => stat.pendingFetches
+    );
+
+    return lines.join("\n") + "\n";
+  }
+
+  /**
+   * Request listener for mounting the exporter on a node http server
+   * @param {IncomingMessage} req Incoming scrape request
+   * @param {ServerResponse} res Server response
+   */
+  public handler = (req: IncomingMessage, res: ServerResponse): void => {
+    if (req.method !== "GET" && req.method !== "HEAD") {
+      res.writeHead(405, { Allow: "GET, HEAD" });
+      res.end();
+      return;
+    }
+
+    const body = this.render();
+    res.writeHead(200, {
+      "Content-Type": PROMETHEUS_CONTENT_TYPE,
+      "Content-Length": Buffer.byteLength(body),
+    });
+    res.end(req.method === "HEAD" ? undefined : body);
+  };
+}
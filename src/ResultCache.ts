@@ -0,0 +1,96 @@
+/**
+ * Retained result along with its lifetime
+ */
+export interface CacheEntry<Value> {
+  value: Value;
+  storedAt: number;
+  expiresAt: number;
+}
+
+/**
+ * Time bound storage of results, capped to a maximum number of entries. Entries
+ * are kept in insertion order so that the oldest are always pruned first
+ */
+export class ResultCache<Key, Value> {
+  /**
+   * Retained entries, ordered from oldest to newest
+   * @type {Map}
+   * @readonly
+   * @private
+   */
+  private readonly entries = new Map<Key, CacheEntry<Value>>();
+
+  /**
+   * Creates a result cache holding up to the number of entries specified
+   * @param {number} maxSize Maximum number of entries to retain
+   */
+  constructor(public readonly maxSize: number) {}
+
+  /**
+   * Number of entries currently retained (including any not yet pruned)
+   * @type {number}
+   */
+  public get size(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * Finds the unexpired entry for the key specified
+   * @param {Key} key Unique identifier of the entry
+   * @returns {CacheEntry | undefined} Retained entry if it has not expired
+   */
+  public get(key: Key): CacheEntry<Value> | undefined {
+    const entry = this.entries.get(key);
+    if (entry && entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+
+    return entry;
+  }
+
+  /**
+   * Retains the value for the number of milliseconds specified, pruning
+   * any expired or overflowing entries along the way
+   * @param {Key} key Unique identifier of the entry
+   * @param {Value} value Value to retain
+   * @param {number} ttl Number of milliseconds to retain the value
+   */
+  public set(key: Key, value: Value, ttl: number): void {
+    const now = Date.now();
+
+    // Re-insert to move the key to the end of the list
+    this.entries.delete(key);
+    this.entries.set(key, { value, storedAt: now, expiresAt: now + ttl });
+    this.prune(now);
+  }
+
+  /**
+   * Removes the entry for the key specified
+   * @param {Key} key Unique identifier of the entry
+   */
+  public delete(key: Key): void {
+    this.entries.delete(key);
+  }
+
+  /**
+   * Removes every entry
+   */
+  public clear(): void {
+    this.entries.clear();
+  }
+
+  /**
+   * Removes the oldest entries while they are expired or over the size limit
+   * @param {number} now Current timestamp
+   */
+  private prune(now: number): void {
+    for (const [key, entry] of this.entries) {
+      if (this.entries.size > this.maxSize || entry.expiresAt <= now) {
+        this.entries.delete(key);
+      } else {
+        break;
+      }
+    }
+  }
+}
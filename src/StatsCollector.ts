@@ -0,0 +1,145 @@
+import { Histogram, HistogramSnapshot } from "./Histogram";
+
+/**
+ * Cumulative counters collected since the valve was created (or last reset)
+ */
+export interface BurstValveCounters {
+  /**
+   * Number of fetch, batch, unsafeBatch and stream calls
+   */
+  calls: number;
+
+  /**
+   * Number of fetcher (or batch fetcher) process invocations, including retries
+   */
+  fetches: number;
+
+  /**
+   * Number of waiters that joined an already active queue (or subqueue)
+   */
+  coalesced: number;
+
+  /**
+   * Number of errors flushed to queues (or subqueues)
+   */
+  errors: number;
+
+  /**
+   * Distribution of the number of keys passed to each batch fetcher invocation
+   */
+  batchSizes: HistogramSnapshot;
+
+  /**
+   * Distribution of the number of milliseconds each fetcher invocation took
+   */
+  latency: HistogramSnapshot;
+}
+
+/**
+ * Point in time statistics of a valve
+ */
+export interface BurstValveStats extends BurstValveCounters {
+  displayName: string;
+
+  /**
+   * Number of queues (and subqueues) with an active fetcher run
+   */
+  activeQueues: number;
+
+  /**
+   * Number of callers waiting across every active queue
+   */
+  waiters: number;
+
+  /**
+   * Largest number of callers waiting on a single active queue
+   */
+  maxWaiters: number;
+
+  /**
+   * Number of fetcher invocations waiting on the concurrency limit
+   */
+  pendingFetches: number;
+}
+
+/**
+ * Upper bounds (milliseconds) of the fetcher latency buckets
+ */
+export const LATENCY_BUCKETS = [
+  5, 10, 25, 50, 100, 250, 500, 1000, 2500, 5000, 10000,
+];
+
+/**
+ * Upper bounds of the batch size buckets
+ */
+export const BATCH_SIZE_BUCKETS = [1, 2, 5, 10, 25, 50, 100, 250, 500, 1000];
+
+/**
+ * Cheap cumulative counters for a single valve
+ */
+export class StatsCollector {
+  /**
+   * Number of fetch, batch, unsafeBatch and stream calls
+   * @type {number}
+   */
+  public calls = 0;
+
+  /**
+   * Number of fetcher (or batch fetcher) process invocations
+   * @type {number}
+   */
+  public fetches = 0;
+
+  /**
+   * Number of waiters that joined an already active queue
+   * @type {number}
+   */
+  public coalesced = 0;
+
+  /**
+   * Number of errors flushed to queues
+   * @type {number}
+   */
+  public errors = 0;
+
+  /**
+   * Number of keys passed to each batch fetcher invocation
+   * @type {Histogram}
+   * @readonly
+   */
+  public readonly batchSizes = new Histogram(BATCH_SIZE_BUCKETS);
+
+  /**
+   * Number of milliseconds each fetcher invocation took
+   * @type {Histogram}
+   * @readonly
+   */
+  public readonly latency = new Histogram(LATENCY_BUCKETS);
+
+  /**
+   * Creates a point in time view of the counters
+   * @returns {BurstValveCounters} Current counter values
+   */
+  public snapshot(): BurstValveCounters {
+    return {
+      calls: this.calls,
+      fetches: this.fetches,
+      coalesced: this.coalesced,
+      errors: this.errors,
+      batchSizes: this.batchSizes.snapshot(),
+      latency: this.latency.snapshot(),
+    };
+  }
+
+  /**
+   * Resets every counter back to zero
+   */
+  public reset(): void {
+    this.calls = 0;
+    this.fetches = 0;
+    this.coalesced = 0;
+    this.errors = 0;
+    this.batchSizes.reset();
+    this.latency.reset();
+  }
+}
@@ -0,0 +1,244 @@
+import type { CloseOptions } from "./index";
+import { StatsSource } from "./PrometheusExporter";
+import { BurstValveStats } from "./StatsCollector";
+
+/**
+ * Queue (or subqueue) with an in-flight fetcher run
+ */
+export interface InFlightQueue<SubqueueKeyType = unknown> {
+  /**
+   * Unique identifier of the subqueue (undefined for the global queue)
+   */
+  subqueue?: SubqueueKeyType;
+
+  /**
+   * Number of callers waiting on the queue
+   */
+  waiters: number;
+
+  /**
+   * Timestamp (milliseconds) the queue became active
+   */
+  startedAt: number;
+}
+
+/**
+ * Any valve (or valve like object) that can be registered
+ */
+export interface RegisteredValve extends StatsSource {
+  readonly displayName: string;
+  inFlight(): InFlightQueue[];
+  close?(options?: CloseOptions): Promise<void>;
+}
+
+/**
+ * Valve with queues that have been in flight for too long
+ */
+export interface StuckValve {
+  valve: RegisteredValve;
+  queues: InFlightQueue[];
+}
+
+/**
+ * Statistics summed across every registered valve
+ */
+export interface RegistryStats {
+  /**
+   * Number of registered valves
+   */
+  valves: number;
+  calls: number;
+  fetches: number;
+  coalesced: number;
+  errors: number;
+  activeQueues: number;
+  waiters: number;
+
+  /**
+   * Largest number of callers waiting on a single active queue of any valve
+   */
+  maxWaiters: number;
+  pendingFetches: number;
+}
+
+/**
+ * Central view of valves by display name, holding valves weakly so
+ * registration never keeps an unused valve from being garbage collected
+ */
+export class ValveRegistry {
+  /**
+   * Weak references to every registered valve, by display name
+   * @type {Map}
+   * @readonly
+   * @private
+   */
+  private readonly valves = new Map<string, Set<WeakRef<RegisteredValve>>>();
+
+  /**
+   * Weak reference of each registered valve
+   * @type {WeakMap}
+   * @readonly
+   * @private
+   */
+  private readonly refs = new WeakMap<
+    RegisteredValve,
+    WeakRef<RegisteredValve>
+  >();
+
+  /**
+   * Removes the references of valves once they have been garbage collected
+   * @type {FinalizationRegistry}
+   * @readonly
+   * @private
+   */
+  private readonly finalizer = new FinalizationRegistry<{
+    displayName: string;
+    ref: WeakRef<RegisteredValve>;
+  }>(({ displayName, ref }) => this.remove(displayName, ref));
+
+  /**
+   * Adds a valve to the registry, under its display name
+   * @param {RegisteredValve} valve Valve to register
+   */
+  public register(valve: RegisteredValve): void {
+    if (this.refs.has(valve)) {
+      return;
+    }
+
+    const ref = new WeakRef(valve);
+    this.refs.set(valve, ref);
+    this.finalizer.register(
+      valve,
+      { displayName: valve.displayName, ref },
+      ref
+    );
+
+    const refs = this.valves.get(valve.displayName) ?? new Set();
+    refs.add(ref);
+    this.valves.set(valve.displayName, refs);
+  }
+
+  /**
+   * Removes a valve from the registry
+   * @param {RegisteredValve} valve Valve to remove
+   */
+  public unregister(valve: RegisteredValve): void {
+    const ref = this.refs.get(valve);
+    if (ref) {
+      this.refs.delete(valve);
+      this.finalizer.unregister(ref);
+      this.remove(valve.displayName, ref);
+    }
+  }
+
+  /**
+   * Finds every registered valve with the display name specified
+   * @param {string} displayName Display name of the valves
+   * @returns {RegisteredValve[]} Valves with the display name, in order of registration
+   */
+  public get(displayName: string): RegisteredValve[] {
+    return [...(this.valves.get(displayName) ?? [])]
+      .map((ref) => ref.deref())
+      .filter((valve): valve is RegisteredValve => valve !== undefined);
+  }
+
+  /**
+   * Lists every registered valve that is still in use
+   * @returns {RegisteredValve[]} Registered valves
+   */
+  public list(): RegisteredValve[] {
+    return [...this.valves.keys()].flatMap((displayName) =>
+      this.get(displayName)
+    );
+  }
+
+  /**
+   * Number of registered valves that are still in use
+   * @returns {number} Number of registered valves
+   */
+  public get size(): number {
+    return this.list().length;
+  }
+
+  /**
+   * Creates a statistics snapshot of every registered valve
+   * @returns {BurstValveStats[]} Statistics of each valve
+   */
+  public stats(): BurstValveStats[] {
+    return this.list().map((valve) => valve.stats());
+  }
+
+  /**
+   * Sums the statistics of every registered valve
+   * @returns {RegistryStats} Statistics across every valve
+   */
+  public aggregate(): RegistryStats {
+    return this.stats().reduce<RegistryStats>(
+      (totals, stat) => ({
+        valves: totals.valves + 1,
+        calls: totals.calls + stat.calls,
+        fetches: totals.fetches + stat.fetches,
+        coalesced: totals.coalesced + stat.coalesced,
+        errors: totals.errors + stat.errors,
+        activeQueues: totals.activeQueues + stat.activeQueues,
+        waiters: totals.waiters + stat.waiters,
+        maxWaiters: Math.max(totals.maxWaiters, stat.maxWaiters),
+        pendingFetches: totals.pendingFetches + stat.pendingFetches,
+      }),
+      {
+        valves: 0,
+        calls: 0,
+        fetches: 0,
+        coalesced: 0,
+        errors: 0,
+        activeQueues: 0,
+        waiters: 0,
+        maxWaiters: 0,
+        pendingFetches: 0,
+      }
+    );
+  }
+
+  /**
+   * Finds valves with queues that have been in flight for longer than the threshold
+   * @param {number} threshold Number of milliseconds a queue can be in flight for
+   * @returns {StuckValve[]} Valves along with their stuck queues
+   */
+  public findStuck(threshold: number): StuckValve[] {
+    const now = Date.now();
+    return this.list()
+      .map((valve) => ({
+        valve,
+        queues: valve
+          .inFlight()
+          .filter((queue) => now - queue.startedAt > threshold),
+      }))
+      .filter(({ queues }) => queues.length > 0);
+  }
+
+  /**
+   * Closes every registered valve that can be closed, for process shutdown
+   * @param {CloseOptions} [options] Close options passed to each valve
+   */
+  public async closeAll(options?: CloseOptions): Promise<void> {
+    await Promise.all(this.list().map((valve) => valve.close?.(options)));
+  }
+
+  /**
+   * Removes a reference from its display name
+   * @param {string} displayName Display name the valve was registered under
+   * @param {WeakRef} ref Reference to remove
+   */
+  private remove(displayName: string, ref: WeakRef<RegisteredValve>): void {
+    const refs = this.valves.get(displayName);
+    refs?.delete(ref);
+    if (refs?.size === 0) {
+      this.valves.delete(displayName);
+    }
+  }
+}
+
+/**
+ * Registry valves are added to when registering with `registry: true`
+ */
+export const defaultRegistry = new ValveRegistry();
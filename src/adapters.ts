@@ -0,0 +1,114 @@
+import { Readable } from "stream";
+import { ReadableStream } from "stream/web";
+
+/**
+ * Source of identifier and result pairs, detaching from any pending
+ * subqueues once the signal passed is aborted
+ */
+export type EntrySource<DrainResult, SubqueueKeyType> = (
+  signal: AbortSignal
+) => AsyncIterable<[SubqueueKeyType, DrainResult | Error]>;
+
+/**
+ * Serializes a single identifier and result pair as a line of newline delimited JSON
+ * @param {Array} entry Identifier and result (or exception) pair
+ * @returns {string} JSON line, errors are serialized by name and message
+ */
+export const toNdjson = <DrainResult, SubqueueKeyType>([key, result]: [
+  SubqueueKeyType,
+  DrainResult | Error
+]): string =>
+  JSON.stringify(
+    result instanceof Error
+      ? { key, error: { name: result.name, message: result.message } }
+      : { key, result }
+  ) + "\n";
+
+/**
+ * Links an optional caller signal to a new abort controller
+ * @param {AbortSignal} [signal] Caller signal to follow
+ * @returns {AbortController} Controller aborted along with the caller signal
+ */
+const linkedController = (signal?: AbortSignal): AbortController => {
+  const controller = new AbortController();
+  if (signal?.aborted) {
+    controller.abort(signal.reason);
+  } else {
+    signal?.addEventListener("abort", () => controller.abort(signal.reason), {
+      once: true,
+    });
+  }
+
+  return controller;
+};
+
+/**
+ * Creates a node Readable pulling entries from the source only when the consumer asks for
+ * more, detaching from pending subqueues when destroyed
+ * @param {EntrySource} source Source of identifier and result pairs
+ * @param {boolean} ndjson Serializes entries as newline delimited JSON rather than object mode
+ * @param {AbortSignal} [signal] Caller signal for aborting the stream
+ * @returns {Readable} Object mode (or NDJSON byte) stream of entries
+ */
+export const createReadable = <DrainResult, SubqueueKeyType>(
+  source: EntrySource<DrainResult, SubqueueKeyType>,
+  ndjson: boolean,
+  signal?: AbortSignal
+): Readable => {
+  const controller = linkedController(signal);
+  const iterator = source(controller.signal)[Symbol.asyncIterator]();
+
+  return new Readable({
+    objectMode: !ndjson,
+    read() {
+      iterator.next().then(
+        ({ done, value }) => {
+          if (done) {
+            this.push(null);
+          } else {
+            this.push(ndjson ? toNdjson(value) : value);
+          }
+        },
+        (error) => this.destroy(error)
+      );
+    },
+    destroy(error, callback) {
+      controller.abort();
+      callback(error);
+    },
+  });
+};
+
+/**
+ * Creates a WHATWG ReadableStream pulling entries from the source only when the
+ * consumer's queue has room, detaching from pending subqueues when cancelled
+ * @param {EntrySource} source Source of identifier and result pairs
+ * @param {boolean} ndjson Serializes entries as newline delimited JSON bytes rather than objects
+ * @param {AbortSignal} [signal] Caller signal for aborting the stream
+ * @returns {ReadableStream} Stream of entries (or NDJSON bytes)
+ */
+export const createReadableStream = <DrainResult, SubqueueKeyType>(
+  source: EntrySource<DrainResult, SubqueueKeyType>,
+  ndjson: boolean,
+  signal?: AbortSignal
+): ReadableStream<[SubqueueKeyType, DrainResult | Error] | Uint8Array> => {
+  const controller = linkedController(signal);
+  const iterator = source(controller.signal)[Symbol.asyncIterator]();
+  const encoder = new TextEncoder();
+
+  return new ReadableStream<
+    [SubqueueKeyType, DrainResult | Error] | Uint8Array
+  >({
+    async pull(stream) {
+      const { done, value } = await iterator.next();
+      if (done) {
+        stream.close();
+      } else {
+        stream.enqueue(ndjson ? encoder.encode(toNdjson(value)) : value);
+      }
+    },
+    cancel() {
+      controller.abort();
+    },
+  });
+};
@@ -0,0 +1,794 @@
+import cluster from "cluster";
+import type { BatchFetcherProcess, FetcherProcess } from "./index";
+import {
+  deserializeError,
+  FetchCoordinator,
+  isPortableKey,
+  leadBatch,
+  SerializedError,
+  serializeError,
+} from "./leader";
+
+/**
+ * Tag marking every message sent between valves and the cluster primary
+ */
+export const CLUSTER_PROTOCOL = "burst-valve:cluster";
+
+/**
+ * Messages sent from worker valves to the cluster primary
+ */
+type WorkerMessage =
+  | {
+      protocol: typeof CLUSTER_PROTOCOL;
+      type: "acquire";
+      ack: number;
+      namespace: string;
+      claims: Array<{ id: number; key?: unknown }>;
+    }
+  | {
+      protocol: typeof CLUSTER_PROTOCOL;
+      type: "release";
+      id: number;
+      result?: unknown;
+      error?: SerializedError;
+    }
+  | { protocol: typeof CLUSTER_PROTOCOL; type: "abandon"; id: number };
+
+/**
+ * Messages sent from the cluster primary to a single claim of a worker
+ */
+type ClaimReply =
+  | { protocol: typeof CLUSTER_PROTOCOL; type: "lead"; id: number }
+  | {
+      protocol: typeof CLUSTER_PROTOCOL;
+      type: "result";
+      id: number;
+      result?: unknown;
+    }
+  | {
+      protocol: typeof CLUSTER_PROTOCOL;
+      type: "error";
+      id: number;
+      error: SerializedError;
+    };
+
+/**
+ * Messages sent from the cluster primary to worker valves
+ */
+type PrimaryMessage =
+  | {
+      protocol: typeof CLUSTER_PROTOCOL;
+      type: "ack";
+      ack: number;
+      leaders: boolean[];
+    }
+  | ClaimReply;
+
+/**
+ * Worker as seen from the primary process (matching node's cluster Worker)
+ */
+export interface ClusterWorker {
+  id: number;
+  send(message: unknown): boolean;
+  isConnected?(): boolean;
+}
+
+/**
+ * Source of worker messages and exits in the primary process (matching node's cluster module)
+ */
+export interface ClusterSource {
+  on(
+    event: "message",
+    listener: (worker: ClusterWorker, message: unknown) => void
+  ): unknown;
+  on(event: "exit", listener: (worker: ClusterWorker) => void): unknown;
+  off(
+    event: "message",
+    listener: (worker: ClusterWorker, message: unknown) => void
+  ): unknown;
+  off(event: "exit", listener: (worker: ClusterWorker) => void): unknown;
+}
+
+/**
+ * IPC channel of a worker process to the primary (matching node's process object)
+ */
+export interface ClusterProcess {
+  send?(message: unknown): boolean;
+  on(event: "message", listener: (message: unknown) => void): unknown;
+  off(event: "message", listener: (message: unknown) => void): unknown;
+}
+
+/**
+ * Single key claimed by a worker
+ */
+interface ClaimRef {
+  worker: ClusterWorker;
+  id: number;
+}
+
+/**
+ * Leader fetching a key across the cluster, and the workers waiting on it
+ */
+interface ClusterEntry {
+  leader: ClaimRef;
+  followers: ClaimRef[];
+}
+
+/**
+ * Configurable wait limits of a worker channel
+ */
+export interface ClusterChannelParams {
+  /**
+   * Number of milliseconds to wait on the primary to acknowledge a claim
+   * before fetching locally (defaults to 1000)
+   */
+  ackTimeout?: number;
+
+  /**
+   * Number of milliseconds to wait on the result of another worker
+   * before fetching locally (defaults to 10000)
+   */
+  waitTimeout?: number;
+}
+
+/**
+ * Claim of a key as acknowledged by the primary
+ */
+interface Claim {
+  id: number;
+
+  /**
+   * Leaders fetch the key for every worker, followers wait on the leader's
+   * result, and local claims fetch on their own when the primary doesn't answer
+   */
+  role: "leader" | "follower" | "local";
+
+  /**
+   * Result, error or promotion sent to claims following another worker
+   */
+  reply?: Promise<ClaimReply>;
+}
+
+/**
+ * Checks if a message received over the IPC channel belongs to the protocol
+ * @param {any} message Received message
+ * @returns {boolean} True/False indicating if the message is a valve message
+ */
+const isClusterMessage = (
+  message: unknown
+): message is { protocol: typeof CLUSTER_PROTOCOL } =>
+  typeof message === "object" &&
+  message !== null &&
+  (message as { protocol?: unknown }).protocol === CLUSTER_PROTOCOL;
+
+/**
+ * Coordinates fetcher runs for every worker of a node cluster, electing the first
+ * worker to claim a key as its leader and relaying the leader's result to the rest
+ */
+export class ClusterPrimary {
+  /**
+   * Keys being fetched across the cluster, by namespace
+   * @type {Map}
+   * @readonly
+   * @private
+   */
+  private readonly entries = new Map<string, ClusterEntry>();
+
+  /**
+   * Entry key of every claim still waiting on an entry, by worker and claim id
+   * @type {Map}
+   * @readonly
+   * @private
+   */
+  private readonly claims = new Map<string, string>();
+
+  /**
+   * Starts coordinating the workers of the cluster
+   * @param {ClusterSource} [source] Cluster to coordinate (defaults to node's cluster module)
+   */
+  constructor(private readonly source: ClusterSource = cluster) {
+    source.on("message", this.onMessage);
+    source.on("exit", this.onExit);
+  }
+
+  /**
+   * Number of keys being fetched across the cluster
+   * @returns {number} Number of keys with a leader
+   */
+  public get active(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * Stops coordinating the workers of the cluster
+   */
+  public close(): void {
+    this.source.off("message", this.onMessage);
+    this.source.off("exit", this.onExit);
+  }
+
+  /**
+   * Routes valve messages sent by a worker
+   * @param {ClusterWorker} worker Worker sending the message
+   * @param {any} message Message received
+   */
+  private onMessage = (worker: ClusterWorker, message: unknown): void => {
+    if (!isClusterMessage(message)) {
+      return;
+    }
+
+    const workerMessage = message as WorkerMessage;
+    if (workerMessage.type === "acquire") {
+      const leaders = workerMessage.claims.map(({ id, key }) => {
+        const entryKey = JSON.stringify(
+          key === undefined
+            ? [workerMessage.namespace]
+            : [workerMessage.namespace, key]
+        );
+        const entry = this.entries.get(entryKey);
+        this.claims.set(`${worker.id}:${id}`, entryKey);
+
+        if (entry) {
+          entry.followers.push({ worker, id });
+          return false;
+        } else {
+          this.entries.set(entryKey, { leader: { worker, id }, followers: [] });
+          return true;
+        }
+      });
+
+      this.send(worker, { type: "ack", ack: workerMessage.ack, leaders });
+    } else if (workerMessage.type === "release") {
+      const entryKey = this.claims.get(`${worker.id}:${workerMessage.id}`);
+      const entry = entryKey !== undefined && this.entries.get(entryKey);
+      if (
+        !entryKey ||
+        !entry ||
+        entry.leader.worker.id !== worker.id ||
+        entry.leader.id !== workerMessage.id
+      ) {
+        return;
+      }
+
+      this.entries.delete(entryKey);
+      this.claims.delete(`${worker.id}:${workerMessage.id}`);
+      entry.followers.forEach((follower) => {
+        this.claims.delete(`${follower.worker.id}:${follower.id}`);
+        this.send(
+          follower.worker,
+          workerMessage.error !== undefined
+            ? { type: "error", id: follower.id, error: workerMessage.error }
+            : { type: "result", id: follower.id, result: workerMessage.result }
+        );
+      });
+    } else if (workerMessage.type === "abandon") {
+      this.abandon(worker, workerMessage.id);
+    }
+  };
+
+  /**
+   * Abandons every claim of a worker that exited, promoting
+   * followers of any keys it was leading
+   * @param {ClusterWorker} worker Worker that exited
+   */
+  private onExit = (worker: ClusterWorker): void => {
+    [...this.claims.keys()].forEach((ref) => {
+      const [workerId, id] = ref.split(":");
+      if (Number(workerId) === worker.id) {
+        this.abandon(worker, Number(id));
+      }
+    });
+  };
+
+  /**
+   * Removes a claim from its entry, handing the lead over to the first
+   * follower when the claim was leading the key
+   * @param {ClusterWorker} worker Worker of the claim
+   * @param {number} id Claim identifier
+   */
+  private abandon(worker: ClusterWorker, id: number): void {
+    const entryKey = this.claims.get(`${worker.id}:${id}`);
+    const entry = entryKey !== undefined && this.entries.get(entryKey);
+    this.claims.delete(`${worker.id}:${id}`);
+    if (!entryKey || !entry) {
+      return;
+    }
+
+    if (entry.leader.worker.id !== worker.id || entry.leader.id !== id) {
+      entry.followers = entry.followers.filter(
+        (follower) => follower.worker.id !== worker.id || follower.id !== id
+      );
+      return;
+    }
+
+    const leader = entry.followers.shift();
+    if (leader) {
+      entry.leader = leader;
+      this.send(leader.worker, { type: "lead", id: leader.id });
+    } else {
+      this.entries.delete(entryKey);
+    }
+  }
+
+  /**
+   * Sends a message to a worker, skipping workers that have disconnected
+   * (their exit hands any claims over to the next follower)
+   * @param {ClusterWorker} worker Worker to send the message to
+   * @param {object} message Message to send
+   */
+  private send(
+    worker: ClusterWorker,
+    message: DistributiveOmit<PrimaryMessage, "protocol">
+  ): void {
+    if (worker.isConnected?.() === false) {
+      return;
+    }
+
+    try {
+      worker.send({ protocol: CLUSTER_PROTOCOL, ...message });
+    } catch (e) {
+      // Worker disconnected mid send, its exit hands the claims over
+    }
+  }
+}
+
+/**
+ * Last identifier handed out to an acquire request or claim, shared by every
+ * channel of the process so claims never collide at the primary
+ */
+let lastId = 0;
+
+/**
+ * Coalesces fetcher runs of the valves in a worker process with every
+ * other worker of the cluster, through the ClusterPrimary
+ */
+export class ClusterChannel implements FetchCoordinator {
+  /**
+   * Acquire requests waiting on the primary's acknowledgement
+   * @type {Map}
+   * @readonly
+   * @private
+   */
+  private readonly acks = new Map<number, (leaders: boolean[]) => void>();
+
+  /**
+   * Claims waiting on the leader's result (or a promotion)
+   * @type {Map}
+   * @readonly
+   * @private
+   */
+  private readonly replies = new Map<number, (message: ClaimReply) => void>();
+
+  /**
+   * Indicates if the channel is listening for messages from the primary
+   * @type {boolean}
+   * @private
+   */
+  private listening = false;
+
+  /**
+   * Number of milliseconds to wait on the primary to acknowledge a claim
+   * @type {number}
+   * @readonly
+   * @private
+   */
+  private readonly ackTimeout: number;
+
+  /**
+   * Number of milliseconds to wait on the result of another worker
+   * @type {number}
+   * @readonly
+   * @private
+   */
+  private readonly waitTimeout: number;
+
+  /**
+   * Creates a channel to the cluster primary
+   * @param {ClusterProcess} [target] IPC channel to the primary (defaults to the current process)
+   * @param {ClusterChannelParams} [params] Acknowledgement and wait timeouts
+   */
+  constructor(
+    private readonly target: ClusterProcess = process,
+    params: ClusterChannelParams = {}
+  ) {
+    this.ackTimeout = params.ackTimeout ?? 1000;
+    this.waitTimeout = params.waitTimeout ?? 10000;
+  }
+
+  /**
+   * Wraps a fetcher process so only the leading worker runs it for each key,
+   * with every other worker receiving the leader's result
+   * @param {string} namespace Name shared by the same valve in every worker
+   * @param {FetcherProcess} fetcher Fetcher process to coalesce
+   * @param {Function} keyOf Maps subqueue keys to their coalescing key
+   * @returns {FetcherProcess} Coalesced fetcher process
+   */
+  public wrapFetcher<FetchResult, SubqueueKeyType>(
+    namespace: string,
+    fetcher: FetcherProcess<FetchResult, SubqueueKeyType>,
+    keyOf: (subqueue: SubqueueKeyType | undefined) => unknown
+  ): FetcherProcess<FetchResult, SubqueueKeyType> {
+    return async (subqueue, signal) => {
+      // Keys that can't be shared with other workers are fetched locally
+      const key = keyOf(subqueue);
+      if (!isPortableKey(key)) {
+        return fetcher(subqueue, signal);
+      }
+
+      const [claim] = await this.claim(namespace, [key], signal);
+      const lead = () =>
+        this.lead(claim.id, signal, () => fetcher(subqueue, signal));
+
+      if (claim.role === "local") {
+        return fetcher(subqueue, signal);
+      }
+      return claim.reply
+        ? ((await this.follow(claim.id, claim.reply, signal, lead, () =>
+            fetcher(subqueue, signal)
+          )) as FetchResult)
+        : lead();
+    };
+  }
+
+  /**
+   * Wraps a batch fetcher process so the leading worker of each key runs it,
+   * early writing the results of keys led by other workers as they arrive
+   * @param {string} namespace Name shared by the same valve in every worker
+   * @param {BatchFetcherProcess} batchFetcher Batch fetcher process to coalesce
+   * @param {Function} keyOf Maps subqueue keys to their coalescing key
+   * @returns {BatchFetcherProcess} Coalesced batch fetcher process
+   */
+  public wrapBatchFetcher<FetchResult, SubqueueKeyType>(
+    namespace: string,
+    batchFetcher: BatchFetcherProcess<FetchResult, SubqueueKeyType>,
+    keyOf: (subqueue: SubqueueKeyType) => unknown
+  ): BatchFetcherProcess<FetchResult, SubqueueKeyType> {
+    return async (subqueues, earlyWrite, signal) => {
+      // Keys that can't be shared with other workers are fetched locally
+      const shared = subqueues.filter((id) => isPortableKey(keyOf(id)));
+      const locals = subqueues.filter((id) => !isPortableKey(keyOf(id)));
+      if (shared.length === 0) {
+        return batchFetcher(subqueues, earlyWrite, signal);
+      }
+
+      const claims = await this.claim(namespace, shared.map(keyOf), signal);
+      locals.push(
+        ...shared.filter((_id, index) => claims[index].role === "local")
+      );
+
+      // Runs the batch fetcher for keys led by this worker
+      const lead = (ids: SubqueueKeyType[], claimIds: number[]) => {
+        const claimOf = new Map(
+          ids.map((id, index) => [keyOf(id), claimIds[index]])
+        );
+        return leadBatch(
+          namespace,
+          batchFetcher,
+          ids,
+          earlyWrite,
+          signal,
+          keyOf,
+          {
+            release: (id, value) =>
+              this.release(claimOf.get(keyOf(id)) as number, value),
+            abandon: (id) => this.abandon(claimOf.get(keyOf(id)) as number),
+          }
+        );
+      };
+
+      // Runs the batch fetcher for keys fetched without the other workers
+      const fetchLocally = (ids: SubqueueKeyType[]) =>
+        leadBatch(namespace, batchFetcher, ids, earlyWrite, signal, keyOf, {
+          release: () => undefined,
+          abandon: () => undefined,
+        });
+
+      const leads = shared.filter(
+        (_id, index) => claims[index].role === "leader"
+      );
+      const outcomes = await Promise.allSettled([
+        leads.length > 0
+          ? lead(
+              leads,
+              claims
+                .filter((claim) => claim.role === "leader")
+                .map((claim) => claim.id)
+            )
+          : undefined,
+        locals.length > 0 ? fetchLocally(locals) : undefined,
+        ...shared.map(async (id, index) => {
+          const { id: claimId, reply } = claims[index];
+          if (reply) {
+            // Promoted (or timed out) claims write their own result while fetching
+            let fetched = false;
+            await this.follow(
+              claimId,
+              reply,
+              signal,
+              () => {
+                fetched = true;
+                return lead([id], [claimId]);
+              },
+              () => {
+                fetched = true;
+                return fetchLocally([id]);
+              }
+            ).then(
+              (result) => {
+                if (!fetched && !signal.aborted) {
+                  earlyWrite(id, result as FetchResult);
+                }
+              },
+              (e: Error) => {
+                if (!signal.aborted) {
+                  earlyWrite(id, e);
+                }
+              }
+            );
+          }
+        }),
+      ]);
+
+      const failure = outcomes.find(
+        (outcome): outcome is PromiseRejectedResult =>
+          outcome.status === "rejected"
+      );
+      if (failure) {
+        throw failure.reason;
+      }
+    };
+  }
+
+  /**
+   * Claims keys with the primary, resolving once the primary has elected
+   * a leader for each of them (or with local claims once the wait times out)
+   * @param {string} namespace Name shared by the same valve in every worker
+   * @param {unknown[]} keys Coalescing keys to claim
+   * @param {AbortSignal} signal Aborted once every local waiter has aborted
+   * @returns {Claim[]} Acknowledged claims, in the order of the keys
+   */
+  private async claim(
+    namespace: string,
+    keys: unknown[],
+    signal: AbortSignal
+  ): Promise<Claim[]> {
+    if (signal.aborted) {
+      throw signal.reason;
+    }
+
+    const ack = ++lastId;
+    const ids = keys.map(() => ++lastId);
+    const claims = new Promise<Claim[]>((resolve, reject) => {
+      const onAbort = () => {
+        // Give up every claim once the primary gets to the request
+        clearTimeout(timer);
+        this.acks.set(ack, () => ids.forEach((id) => this.abandon(id)));
+        reject(signal.reason);
+      };
+
+      // Give up every claim (the primary handles them in order, right after
+      // the request) and fetch locally when the primary doesn't answer
+      const timer = setTimeout(() => {
+        signal.removeEventListener("abort", onAbort);
+        this.acks.delete(ack);
+        ids.forEach((id) => this.abandon(id));
+        resolve(ids.map((id) => ({ id, role: "local" })));
+      }, this.ackTimeout);
+
+      this.acks.set(ack, (leaders) => {
+        clearTimeout(timer);
+        signal.removeEventListener("abort", onAbort);
+
+        // Register followers straight away, their replies can arrive with the ack
+        resolve(
+          ids.map((id, index) => ({
+            id,
+            role: leaders[index] ? "leader" : "follower",
+            reply: leaders[index]
+              ? undefined
+              : new Promise<ClaimReply>((resolveReply) =>
+                  this.replies.set(id, resolveReply)
+                ),
+          }))
+        );
+      });
+      signal.addEventListener("abort", onAbort, { once: true });
+    });
+
+    this.send({
+      type: "acquire",
+      ack,
+      namespace,
+      claims: keys.map((key, index) => ({ id: ids[index], key })),
+    });
+    return claims;
+  }
+
+  /**
+   * Runs the fetcher for a led claim, releasing the result (or error) to the followers
+   * @param {number} id Claim identifier
+   * @param {AbortSignal} signal Aborted once every local waiter has aborted
+   * @param {Function} run Runs the fetcher process
+   * @returns {FetchResult} Result of the fetcher process
+   */
+  private async lead<FetchResult>(
+    id: number,
+    signal: AbortSignal,
+    run: () => Promise<FetchResult>
+  ): Promise<FetchResult> {
+    let result: FetchResult;
+    try {
+      result = await run();
+    } catch (e) {
+      if (signal.aborted) {
+        this.abandon(id);
+      } else {
+        this.release(id, e as Error);
+      }
+      throw e;
+    }
+
+    // Release outside of the fetch, failing to send the result never fails local callers
+    this.release(id, result);
+    return result;
+  }
+
+  /**
+   * Waits on the result of a key led by another worker, taking over
+   * the fetch when promoted to leader (or once the wait times out)
+   * @param {number} id Claim identifier
+   * @param {Promise} reply Reply from the primary to the claim
+   * @param {AbortSignal} signal Aborted once every local waiter has aborted
+   * @param {Function} lead Runs the fetcher process once promoted
+   * @param {Function} fetchLocally Runs the fetcher process once the wait times out
+   * @returns {unknown} Result of the leader (or the promoted or local fetch)
+   */
+  private async follow(
+    id: number,
+    reply: Promise<ClaimReply>,
+    signal: AbortSignal,
+    lead: () => Promise<unknown>,
+    fetchLocally: () => Promise<unknown>
+  ): Promise<unknown> {
+    const message = await new Promise<ClaimReply | undefined>(
+      (resolve, reject) => {
+        const giveUp = () => {
+          this.replies.delete(id);
+          this.abandon(id);
+        };
+        const onAbort = () => {
+          clearTimeout(timer);
+          giveUp();
+          reject(signal.reason);
+        };
+
+        if (signal.aborted) {
+          giveUp();
+          return reject(signal.reason);
+        }
+
+        const timer = setTimeout(() => {
+          signal.removeEventListener("abort", onAbort);
+          giveUp();
+          resolve(undefined);
+        }, this.waitTimeout);
+        signal.addEventListener("abort", onAbort, { once: true });
+        reply.then((message) => {
+          clearTimeout(timer);
+          signal.removeEventListener("abort", onAbort);
+          resolve(message);
+        });
+      }
+    );
+
+    if (!message) {
+      return fetchLocally();
+    } else if (message.type === "lead") {
+      return lead();
+    } else if (message.type === "error") {
+      throw deserializeError(message.error);
+    } else {
+      return message.result;
+    }
+  }
+
+  /**
+   * Sends the result (or error) of a led claim to the primary, sending the
+   * serialization error instead when the result can't be sent, so only the
+   * other workers fail on it
+   * @param {number} id Claim identifier
+   * @param {any} value Result or error of the fetch
+   */
+  private release(id: number, value: unknown): void {
+    try {
+      this.send(
+        value instanceof Error
+          ? { type: "release", id, error: serializeError(value) }
+          : { type: "release", id, result: value }
+      );
+    } catch (e) {
+      this.send({ type: "release", id, error: serializeError(e as Error) });
+    }
+  }
+
+  /**
+   * Gives up a claim, handing the lead over to the next follower when leading
+   * @param {number} id Claim identifier
+   */
+  private abandon(id: number): void {
+    this.send({ type: "abandon", id });
+  }
+
+  /**
+   * Sends a message to the primary
+   * @param {object} message Message to send
+   */
+  private send(message: DistributiveOmit<WorkerMessage, "protocol">): void {
+    if (!this.target.send) {
+      throw new Error(`Cluster channel is not connected to a primary process`);
+    }
+
+    this.target.send({ protocol: CLUSTER_PROTOCOL, ...message });
+    this.listen();
+  }
+
+  /**
+   * Routes messages from the primary to the waiting acquire request or claim
+   * @param {any} message Message received
+   */
+  private onMessage = (message: unknown): void => {
+    if (!isClusterMessage(message)) {
+      return;
+    }
+
+    const primaryMessage = message as PrimaryMessage;
+    if (primaryMessage.type === "ack") {
+      const resolve = this.acks.get(primaryMessage.ack);
+      this.acks.delete(primaryMessage.ack);
+      resolve?.(primaryMessage.leaders);
+    } else {
+      const resolve = this.replies.get(primaryMessage.id);
+      this.replies.delete(primaryMessage.id);
+      resolve?.(primaryMessage);
+    }
+
+    this.listen();
+  };
+
+  /**
+   * Listens for messages from the primary only while requests or
+   * claims are waiting, so the channel never holds the process open
+   */
+  private listen(): void {
+    const waiting = this.acks.size > 0 || this.replies.size > 0;
+    if (waiting && !this.listening) {
+      this.target.on("message", this.onMessage);
+    } else if (!waiting && this.listening) {
+      this.target.off("message", this.onMessage);
+    }
+    this.listening = waiting;
+  }
+}
+
+/**
+ * Omits a property from every member of a union
+ */
+type DistributiveOmit<T, K extends PropertyKey> = T extends unknown
+  ? Omit<T, K>
+  : never;
+
+/**
+ * Channel shared by every valve of the current worker process
+ */
+let workerChannel: ClusterChannel | undefined;
+
+/**
+ * Creates (or reuses) the channel to the primary when running as a cluster worker
+ * @returns {ClusterChannel | undefined} Channel of the worker, undefined outside of a worker
+ */
+export const getWorkerChannel = (): ClusterChannel | undefined => {
+  if (cluster.isWorker) {
+    workerChannel = workerChannel ?? new ClusterChannel();
+  }
+  return workerChannel;
+};
@@ -0,0 +1,91 @@
+import diagnostics_channel from "diagnostics_channel";
+
+/**
+ * Names of the diagnostics channels every valve publishes to
+ */
+export const DIAGNOSTICS_CHANNELS = {
+  fetchStart: "burst-valve:fetch:start",
+  fetchEnd: "burst-valve:fetch:end",
+  queueJoin: "burst-valve:queue:join",
+  batchDispatch: "burst-valve:batch:dispatch",
+} as const;
+
+/**
+ * Published each time a fetcher (or batch fetcher) process is invoked
+ */
+export interface FetchStartMessage<SubqueueKeyType = unknown> {
+  displayName: string;
+
+  /**
+   * Unique identifiers being fetched (undefined for the global queue)
+   */
+  keys: Array<SubqueueKeyType | undefined>;
+  batch: boolean;
+  attempt: number;
+
+  /**
+   * Number of callers waiting on the keys being fetched
+   */
+  waiters: number;
+}
+
+/**
+ * Published once a queue (or subqueue) is flushed with a result or error
+ */
+export interface FetchEndMessage<
+  DrainResult = unknown,
+  SubqueueKeyType = unknown
+> {
+  displayName: string;
+  key?: SubqueueKeyType;
+
+  /**
+   * Number of callers the result (or error) was sent to
+   */
+  waiters: number;
+
+  /**
+   * Number of milliseconds since the queue became active
+   */
+  duration: number;
+  result?: DrainResult;
+  error?: Error;
+}
+
+/**
+ * Published each time a caller joins a queue (or subqueue)
+ */
+export interface QueueJoinMessage<SubqueueKeyType = unknown> {
+  displayName: string;
+  key?: SubqueueKeyType;
+
+  /**
+   * Number of callers waiting on the queue, including the one joining
+   */
+  waiters: number;
+}
+
+/**
+ * Published each time a batch fetcher run is dispatched
+ */
+export interface BatchDispatchMessage<SubqueueKeyType = unknown> {
+  displayName: string;
+  keys: SubqueueKeyType[];
+
+  /**
+   * Number of chunks the keys are split into
+   */
+  chunks: number;
+}
+
+/**
+ * Channels every valve publishes to, subscribers are checked before building any message
+ */
+export const diagnostics = {
+  fetchStart: diagnostics_channel.channel(DIAGNOSTICS_CHANNELS.fetchStart),
+  fetchEnd: diagnostics_channel.channel(DIAGNOSTICS_CHANNELS.fetchEnd),
+  queueJoin: diagnostics_channel.channel(DIAGNOSTICS_CHANNELS.queueJoin),
+  batchDispatch: diagnostics_channel.channel(
+    DIAGNOSTICS_CHANNELS.batchDispatch
+  ),
+};
@@ -0,0 +1,152 @@
+/**
+ * Raised when a fetch does not settle within the allotted time
+ */
+export class TimeoutError<
+  SubqueueKeyType = string | number | symbol
+> extends Error {
+  /**
+   * Display name of the valve that timed out
+   * @type {string}
+   * @readonly
+   */
+  public readonly displayName: string;
+
+  /**
+   * Unique identifier of the subqueue that timed out (undefined for the global queue)
+   * @type {SubqueueKeyType | undefined}
+   * @readonly
+   */
+  public readonly subqueue?: SubqueueKeyType;
+
+  /**
+   * Number of milliseconds that passed before timing out
+   * @type {number}
+   * @readonly
+   */
+  public readonly timeout: number;
+
+  /**
+   * Creates a timeout error for the queue (or subqueue) specified
+   * @param {string} displayName Display name of the valve
+   * @param {number} timeout Number of milliseconds that passed before timing out
+   * @param {SubqueueKeyType} [subqueue] Unique identifier of the subqueue that timed out
+   */
+  constructor(
+    displayName: string,
+    timeout: number,
+    subqueue?: SubqueueKeyType
+  ) {
+    super(
+      subqueue === undefined
+        ? `Fetch timed out after ${timeout}ms in ${displayName}`
+        : `Fetch timed out after ${timeout}ms for '${String(
+            subqueue
+          )}' subqueue in ${displayName}`
+    );
+    this.name = "TimeoutError";
+    this.displayName = displayName;
+    this.subqueue = subqueue;
+    this.timeout = timeout;
+  }
+}
+
+/**
+ * Raised when a fetch is blocked by an open circuit breaker
+ */
+export class CircuitOpenError<
+  SubqueueKeyType = string | number | symbol
+> extends Error {
+  /**
+   * Display name of the valve with the open circuit
+   * @type {string}
+   * @readonly
+   */
+  public readonly displayName: string;
+
+  /**
+   * Unique identifier of the subqueue with the open circuit (undefined when
+   * the circuit is tripped for the entire valve)
+   * @type {SubqueueKeyType | undefined}
+   * @readonly
+   */
+  public readonly subqueue?: SubqueueKeyType;
+
+  /**
+   * Creates a circuit open error for the valve (or subqueue) specified
+   * @param {string} displayName Display name of the valve
+   * @param {SubqueueKeyType} [subqueue] Unique identifier of the subqueue with the open circuit
+   */
+  constructor(displayName: string, subqueue?: SubqueueKeyType) {
+    super(
+      subqueue === undefined
+        ? `Circuit is open for ${displayName}`
+        : `Circuit is open for '${String(subqueue)}' subqueue in ${displayName}`
+    );
+    this.name = "CircuitOpenError";
+    this.displayName = displayName;
+    this.subqueue = subqueue;
+  }
+}
+
+/**
+ * Raised when a fetch would start a new fetcher run while every concurrency
+ * slot is taken and the pending queue is full
+ */
+export class QueueFullError<
+  SubqueueKeyType = string | number | symbol
+> extends Error {
+  /**
+   * Display name of the valve with the full pending queue
+   * @type {string}
+   * @readonly
+   */
+  public readonly displayName: string;
+
+  /**
+   * Unique identifier of the subqueue that was rejected (undefined for the global queue)
+   * @type {SubqueueKeyType | undefined}
+   * @readonly
+   */
+  public readonly subqueue?: SubqueueKeyType;
+
+  /**
+   * Creates a queue full error for the queue (or subqueue) specified
+   * @param {string} displayName Display name of the valve
+   * @param {SubqueueKeyType} [subqueue] Unique identifier of the subqueue that was rejected
+   */
+  constructor(displayName: string, subqueue?: SubqueueKeyType) {
+    super(
+      subqueue === undefined
+        ? `Pending queue is full for ${displayName}`
+        : `Pending queue is full, rejecting '${String(
+            subqueue
+          )}' subqueue in ${displayName}`
+    );
+    this.name = "QueueFullError";
+    this.displayName = displayName;
+    this.subqueue = subqueue;
+  }
+}
+
+/**
+ * Raised when a fetch is made on a valve that has been closed, or when
+ * a valve is forcefully closed while the fetch is still waiting
+ */
+export class ValveClosedError extends Error {
+  /**
+   * Display name of the closed valve
+   * @type {string}
+   * @readonly
+   */
+  public readonly displayName: string;
+
+  /**
+   * Creates a closed error for the valve specified
+   * @param {string} displayName Display name of the valve
+   */
+  constructor(displayName: string) {
+    super(`Valve is closed for ${displayName}`);
+    this.name = "ValveClosedError";
+    this.displayName = displayName;
+  }
+}
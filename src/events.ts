@@ -0,0 +1,96 @@
+/**
+ * Emitted each time a fetcher (or batch fetcher) process is invoked
+ */
+export interface FetchStartEvent<SubqueueKeyType> {
+  displayName: string;
+
+  /**
+   * Unique identifiers being fetched (undefined for the global queue)
+   */
+  subqueues: Array<SubqueueKeyType | undefined>;
+
+  /**
+   * Indicates if the batch fetcher process was invoked
+   */
+  batch: boolean;
+
+  /**
+   * Number of the attempt, starting at 1
+   */
+  attempt: number;
+}
+
+/**
+ * Emitted when a caller joins an already active queue (or subqueue)
+ */
+export interface CoalesceEvent<SubqueueKeyType> {
+  displayName: string;
+  subqueue?: SubqueueKeyType;
+}
+
+/**
+ * Emitted when a batch fetcher process writes a result before completing
+ */
+export interface EarlyWriteEvent<DrainResult, SubqueueKeyType> {
+  displayName: string;
+  subqueue: SubqueueKeyType;
+  result: DrainResult | Error;
+}
+
+/**
+ * Emitted once a successful result is flushed to the waiters of a queue (or subqueue)
+ */
+export interface FlushEvent<DrainResult, SubqueueKeyType> {
+  displayName: string;
+  subqueue?: SubqueueKeyType;
+  result: DrainResult;
+
+  /**
+   * Number of waiters the result was sent to
+   */
+  waiters: number;
+
+  /**
+   * Number of milliseconds since the queue became active
+   */
+  duration: number;
+}
+
+/**
+ * Emitted once an error is flushed to the waiters of a queue (or subqueue)
+ */
+export interface FetchErrorEvent<SubqueueKeyType> {
+  displayName: string;
+  subqueue?: SubqueueKeyType;
+  error: Error;
+
+  /**
+   * Number of waiters the error was sent to
+   */
+  waiters: number;
+
+  /**
+   * Number of milliseconds since the queue became active
+   */
+  duration: number;
+}
+
+/**
+ * Lifecycle events emitted by a valve, along with their payloads
+ */
+export interface BurstValveEvents<DrainResult, SubqueueKeyType> {
+  fetchStart: FetchStartEvent<SubqueueKeyType>;
+  coalesce: CoalesceEvent<SubqueueKeyType>;
+  earlyWrite: EarlyWriteEvent<DrainResult, SubqueueKeyType>;
+  flush: FlushEvent<DrainResult, SubqueueKeyType>;
+  fetchError: FetchErrorEvent<SubqueueKeyType>;
+}
+
+/**
+ * Lifecycle event listeners that can be attached when creating a valve
+ */
+export type BurstValveHooks<DrainResult, SubqueueKeyType> = {
+  [Event in keyof BurstValveEvents<DrainResult, SubqueueKeyType>]?: (
+    payload: BurstValveEvents<DrainResult, SubqueueKeyType>[Event]
+  ) => void;
+};
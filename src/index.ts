@@ -1,3 +1,152 @@
+import { EventEmitter } from "events";
+import { Readable } from "stream";
+import { ReadableStream } from "stream/web";
+import { createReadable, createReadableStream, toNdjson } from "./adapters";
+import {
+  CircuitBreaker,
+  CircuitBreakerParams,
+  CircuitState,
+} from "./CircuitBreaker";
+import {
+  CLUSTER_PROTOCOL,
+  ClusterChannel,
+  ClusterChannelParams,
+  ClusterPrimary,
+  ClusterProcess,
+  ClusterSource,
+  ClusterWorker,
+  getWorkerChannel,
+} from "./cluster";
+import { ConcurrencyLimiter } from "./ConcurrencyLimiter";
+import { FetchCoordinator } from "./leader";
+import {
+  DistributedLock,
+  DistributedLockAdapter,
+  DistributedLockParams,
+  InMemoryLockAdapter,
+  LockMessage,
+} from "./lock";
+import {
+  defaultRegistry,
+  InFlightQueue,
+  RegisteredValve,
+  RegistryStats,
+  StuckValve,
+  ValveRegistry,
+} from "./ValveRegistry";
+import {
+  getThreadChannel,
+  THREAD_CHANNEL_NAME,
+  ThreadProcess,
+  ThreadSource,
+} from "./threads";
+import { HistogramSnapshot } from "./Histogram";
+import {
+  PROMETHEUS_CONTENT_TYPE,
+  PrometheusExporter,
+  StatsSource,
+} from "./PrometheusExporter";
+import {
+  BurstValveCounters,
+  BurstValveStats,
+  StatsCollector,
+} from "./StatsCollector";
+import {
+  BatchDispatchMessage,
+  diagnostics,
+  DIAGNOSTICS_CHANNELS,
+  FetchEndMessage,
+  FetchStartMessage,
+  QueueJoinMessage,
+} from "./diagnostics";
+import {
+  CircuitOpenError,
+  QueueFullError,
+  TimeoutError,
+  ValveClosedError,
+} from "./errors";
+import {
+  BurstValveEvents,
+  BurstValveHooks,
+  CoalesceEvent,
+  EarlyWriteEvent,
+  FetchErrorEvent,
+  FetchStartEvent,
+  FlushEvent,
+} from "./events";
+import { CacheEntry, ResultCache } from "./ResultCache";
+import {
+  InMemorySpan,
+  InMemoryTracer,
+  Span,
+  SpanAttributes,
+  SpanContext,
+  SpanLink,
+  SpanOptions,
+  SpanStatus,
+  SpanStatusCode,
+  Tracer,
+} from "./tracing";
+
+export {
+  BatchDispatchMessage,
+  BurstValveCounters,
+  BurstValveEvents,
+  BurstValveHooks,
+  BurstValveStats,
+  CircuitBreakerParams,
+  CircuitOpenError,
+  CircuitState,
+  CLUSTER_PROTOCOL,
+  ClusterChannel,
+  ClusterChannelParams,
+  ClusterPrimary,
+  ClusterProcess,
+  ClusterSource,
+  ClusterWorker,
+  CoalesceEvent,
+  DIAGNOSTICS_CHANNELS,
+  DistributedLock,
+  DistributedLockAdapter,
+  defaultRegistry,
+  DistributedLockParams,
+  EarlyWriteEvent,
+  FetchEndMessage,
+  FetchErrorEvent,
+  FetchStartEvent,
+  FetchStartMessage,
+  FlushEvent,
+  HistogramSnapshot,
+  InFlightQueue,
+  InMemoryLockAdapter,
+  InMemorySpan,
+  InMemoryTracer,
+  LockMessage,
+  PROMETHEUS_CONTENT_TYPE,
+  PrometheusExporter,
+  QueueFullError,
+  QueueJoinMessage,
+  RegisteredValve,
+  RegistryStats,
+  Span,
+  SpanAttributes,
+  SpanContext,
+  SpanLink,
+  SpanOptions,
+  SpanStatus,
+  SpanStatusCode,
+  StatsSource,
+  StuckValve,
+  THREAD_CHANNEL_NAME,
+  ThreadProcess,
+  ThreadSource,
+  TimeoutError,
+  toNdjson,
+  Tracer,
+  ValveClosedError,
+  ValveRegistry,
+};
+
 /**
  * Promise callback storage format
  */
@@ -6,20 +155,83 @@ interface PromiseStore<Result> {
   reject(error: Error): void;
 }
 
+/**
+ * Shared state of a single fetcher (or batch fetcher) process invocation
+ */
+interface FetcherRun {
+  controller: AbortController;
+  remaining: number;
+  succeeded?: boolean;
+  failure?: Error;
+}
+
+/**
+ * Active queue (or subqueue) of promise callbacks waiting on a fetcher run
+ */
+interface ActiveQueue<Result> {
+  subqueue?: unknown;
+  waiters: PromiseStore<Result>[];
+  run: FetcherRun;
+  startedAt: number;
+  callers?: Span[];
+  span?: Span;
+}
+
+/**
+ * Batch fetcher run collecting keys until the batch window closes
+ */
+interface PendingBatch<SubqueueKeyType> {
+  run: FetcherRun;
+  keys: SubqueueKeyType[];
+  promise: Promise<void>;
+}
+
+/**
+ * Promise callbacks waiting on a specific queue (or subqueue)
+ */
+interface QueueWaiter<Result, SubqueueKeyType> {
+  subqueue?: SubqueueKeyType;
+  queue: ActiveQueue<Result>;
+  store: PromiseStore<Result>;
+}
+
+/**
+ * Identifier of a batch call, along with either its immediate answer
+ * (retained result, retained error or blocked run) or the queue to wait on
+ */
+type BatchEntry<Result, SubqueueKeyType> =
+  | { subqueue: SubqueueKeyType; queue: ActiveQueue<Result> }
+  | { subqueue: SubqueueKeyType; result: Result }
+  | { subqueue: SubqueueKeyType; error: Error };
+
+/**
+ * Identifiers of a batch call, sorted by how each is answered
+ */
+interface BatchKeys<Result, SubqueueKeyType> {
+  entries: BatchEntry<Result, SubqueueKeyType>[];
+  fetchBatchKeys: SubqueueKeyType[];
+  refreshKeys: SubqueueKeyType[];
+}
+
 /**
  * Method for running a single process
  * @param {SubqueueKeyType} [subqueue] Unique key of the subqueue being run
+ * @param {AbortSignal} signal Aborted once every waiter of the queue has aborted
  * @returns {FetchResult} Result of the process
  */
 export type FetcherProcess<
   FetchResult,
   SubqueueKeyType = string | number | symbol
-> = (subqueue?: SubqueueKeyType) => Promise<FetchResult>;
+> = (
+  subqueue: SubqueueKeyType | undefined,
+  signal: AbortSignal
+) => Promise<FetchResult>;
 
 /**
  * Method for running a batch fetch process
  * @param {SubqueueKeyType[]} subqueues Unique keys of the subqueues being run
  * @param {Function} earlyWrite Mechanism for unblocking subqueues as the data is available
+ * @param {AbortSignal} signal Aborted once every waiter of the subqueues has aborted
  * @returns {FetchResult[] | Error[] | Map | void} Results in array/map format. Nothing should be returned when using the earlyWrite mechanism
  */
 export type BatchFetcherProcess<
@@ -27,7 +239,8 @@ export type BatchFetcherProcess<
   SubqueueKeyType = string | number | symbol
 > = (
   subqueues: SubqueueKeyType[],
-  earlyWrite: (subqueue: SubqueueKeyType, result: FetchResult | Error) => void
+  earlyWrite: (subqueue: SubqueueKeyType, result: FetchResult | Error) => void,
+  signal: AbortSignal
 ) => Promise<
   Array<FetchResult | Error> | Map<SubqueueKeyType, FetchResult | Error> | void
 >;
@@ -51,6 +264,242 @@ export interface BurstValveParams<DrainResult, SubqueueKeyType> {
    * of unique identifiers
    */
   batch?: BatchFetcherProcess<DrainResult, SubqueueKeyType>;
+
+  /**
+   * Number of milliseconds a fetcher process has to complete before all
+   * of its waiters are rejected with a TimeoutError and the queue is freed
+   */
+  timeout?: number;
+
+  /**
+   * Number of milliseconds successful results are retained after a fetcher
+   * process completes. Calls made within the window are answered from memory
+   */
+  resultTtl?: number;
+
+  /**
+   * Maximum number of results retained at any given time, oldest results
+   * are dropped first (defaults to 1000)
+   */
+  maxResults?: number;
+
+  /**
+   * Serves retained results that are past their fresh window right away,
+   * while a single background refresh runs for the queue (or subqueue)
+   */
+  staleWhileRevalidate?: StaleWhileRevalidateParams;
+
+  /**
+   * Number of milliseconds fetcher errors are retained, replaying the
+   * same error to any calls made within the window
+   */
+  errorTtl?: number;
+
+  /**
+   * Determines which errors should be retained (defaults to all errors)
+   */
+  shouldCacheError?: (error: Error, subqueue?: SubqueueKeyType) => boolean;
+
+  /**
+   * Retry policy for failed fetcher processes
+   */
+  retry?: RetryParams<SubqueueKeyType>;
+
+  /**
+   * Circuit breaker for blocking fetcher processes while failing
+   */
+  circuitBreaker?: CircuitBreakerParams;
+
+  /**
+   * Window for collecting inactive keys from fetch, batch, unsafeBatch and
+   * stream calls into a single batch fetcher run. Either the current tick
+   * (including pending promise continuations), the current microtask queue,
+   * or a number of milliseconds
+   */
+  batchWindow?: BatchWindow;
+
+  /**
+   * Maximum number of keys passed to a single batch fetcher invocation,
+   * larger batches are split into chunks (defaults to no limit)
+   */
+  maxBatchSize?: number;
+
+  /**
+   * Maximum number of batch fetcher chunks running in parallel for
+   * a single batch (defaults to no limit)
+   */
+  maxParallelBatches?: number;
+
+  /**
+   * Maximum number of fetcher (or batch fetcher) invocations running at the
+   * same time. Invocations beyond the limit wait in a first in first out queue
+   */
+  maxConcurrency?: number;
+
+  /**
+   * Maximum number of invocations waiting on the concurrency limit, calls
+   * that would start new fetcher runs beyond it are rejected with a QueueFullError
+   */
+  maxPending?: number;
+
+  /**
+   * Lifecycle event listeners to attach to the valve
+   */
+  hooks?: BurstValveHooks<DrainResult, SubqueueKeyType>;
+
+  /**
+   * Tracer for opening a span around each fetcher (or batch fetcher) invocation
+   */
+  tracer?: Tracer;
+
+  /**
+   * Maps subqueue keys to a stable primitive for coalescing, retention and
+   * deduping, allowing composite (object) keys. Fetcher processes still
+   * receive the original keys
+   */
+  keyFn?: (subqueue: SubqueueKeyType) => PropertyKey;
+
+  /**
+   * Coalesces fetcher runs across every worker of a node cluster, through a
+   * ClusterPrimary running in the primary process. Passing true uses the channel
+   * of the current worker (and does nothing outside of a cluster worker)
+   */
+  cluster?: boolean | ClusterChannel;
+
+  /**
+   * Coalesces fetcher runs across every worker thread over a BroadcastChannel,
+   * through a ClusterPrimary listening on a ThreadSource in any one thread.
+   * Passing wait limits instead of true opens a channel with its own timeouts
+   */
+  threads?: boolean | ClusterChannelParams;
+
+  /**
+   * Consults a distributed lock before running the fetcher, so only one
+   * process in the fleet fetches each key while the rest wait on its result
+   */
+  distributedLock?: DistributedLockParams;
+
+  /**
+   * Registry to add the valve to under its display name, passing
+   * true uses the default registry
+   */
+  registry?: boolean | ValveRegistry;
+}
+
+/**
+ * Window for collecting keys into a single batch fetcher run
+ */
+export type BatchWindow = "tick" | "microtask" | number;
+
+/**
+ * Configurable retry policy for fetcher processes
+ */
+export interface RetryParams<SubqueueKeyType> {
+  /**
+   * Maximum number of attempts, including the first (defaults to 3)
+   */
+  attempts?: number;
+
+  /**
+   * Number of milliseconds to wait before the first retry, doubling
+   * with each attempt after (defaults to 100)
+   */
+  delay?: number;
+
+  /**
+   * Maximum number of milliseconds to wait between attempts (defaults to 5000)
+   */
+  maxDelay?: number;
+
+  /**
+   * Randomizes the wait between zero and the backoff delay (defaults to true)
+   */
+  jitter?: boolean;
+
+  /**
+   * Determines if the failed attempt should be retried (defaults to all errors)
+   * @param {Error} error Error raised by the attempt
+   * @param {number} attempt Number of the attempt that failed, starting at 1
+   * @param {SubqueueKeyType} [subqueue] Unique identifier of the failed subqueue
+   */
+  shouldRetry?: (
+    error: Error,
+    attempt: number,
+    subqueue?: SubqueueKeyType
+  ) => boolean;
+}
+
+/**
+ * Configurable windows for stale-while-revalidate mode
+ */
+export interface StaleWhileRevalidateParams {
+  /**
+   * Number of milliseconds a result is served without triggering a refresh
+   */
+  freshFor: number;
+
+  /**
+   * Number of milliseconds a result is retained, serving it while
+   * refreshing in the background once it is no longer fresh
+   */
+  staleFor: number;
+}
+
+/**
+ * Per call options for fetch, batch, unsafeBatch and stream
+ */
+export interface FetchOptions {
+  /**
+   * Number of milliseconds the caller is willing to wait before being
+   * rejected with a TimeoutError. The underlying fetch is left running
+   * for any other waiters
+   */
+  timeout?: number;
+
+  /**
+   * Signal for leaving the queue early. The caller is rejected with the abort
+   * reason, and the fetcher process is aborted once every waiter has left
+   */
+  signal?: AbortSignal;
+
+  /**
+   * Span of the caller, linked to the span of every fetcher
+   * invocation it waits on (requires a valve tracer)
+   */
+  span?: Span;
+}
+
+/**
+ * Per call options for stream and iterate
+ */
+export interface StreamOptions extends FetchOptions {
+  /**
+   * Delivers results in the order of the identifiers passed rather than the
+   * order they become available, buffering any that arrive early
+   */
+  ordered?: boolean;
+}
+
+/**
+ * Per call options for the Readable and ReadableStream adapters
+ */
+export interface ReadableOptions extends StreamOptions {
+  /**
+   * Serializes each result as a line of newline delimited JSON
+   * (`{"key":..,"result":..}` or `{"key":..,"error":{"name":..,"message":..}}`)
+   */
+  ndjson?: boolean;
+}
+
+/**
+ * Options for closing a valve
+ */
+export interface CloseOptions {
+  /**
+   * Rejects every caller still waiting on an in-flight queue right
+   * away, rather than waiting on the queues to drain
+   */
+  force?: boolean;
 }
 
 /**
@@ -64,13 +513,18 @@ const optionallyWrapError = (error: unknown, messagePrefix: string): Error =>
     ? error
     : new Error(`${messagePrefix}: ${error}`, { cause: error });
 
+/**
+ * Placeholder for callers that can never be interrupted
+ */
+const neverInterrupted = new Promise<void>(() => undefined);
+
 /**
  * Concurrent queue for a single (or batch) asynchronous action
  */
 export class BurstValve<
   DrainResult,
   SubqueueKeyType = string | number | symbol
-> {
+> extends EventEmitter {
   /**
    * Display name for the valve
    * @type {string}
@@ -97,19 +551,179 @@ export class BurstValve<
     SubqueueKeyType
   >;
 
+  /**
+   * Number of milliseconds a fetcher process has to complete
+   * @type {number | undefined}
+   * @readonly
+   * @private
+   */
+  private readonly timeout?: number;
+
+  /**
+   * Number of milliseconds successful results are retained
+   * @type {number | undefined}
+   * @readonly
+   * @private
+   */
+  private readonly resultTtl?: number;
+
+  /**
+   * Number of milliseconds fetcher errors are retained
+   * @type {number | undefined}
+   * @readonly
+   * @private
+   */
+  private readonly errorTtl?: number;
+
+  /**
+   * Determines which errors should be retained
+   * @type {Function | undefined}
+   * @readonly
+   * @private
+   */
+  private readonly shouldCacheError?: (
+    error: Error,
+    subqueue?: SubqueueKeyType
+  ) => boolean;
+
+  /**
+   * Retained errors of recently failed fetcher processes
+   * @type {ResultCache | undefined}
+   * @readonly
+   * @private
+   */
+  private readonly errors?: ResultCache<unknown, Error>;
+
+  /**
+   * Retry policy for failed fetcher processes
+   * @type {RetryParams | undefined}
+   * @readonly
+   * @private
+   */
+  private readonly retry?: RetryParams<SubqueueKeyType>;
+
+  /**
+   * Circuit breaker configuration
+   * @type {CircuitBreakerParams | undefined}
+   * @readonly
+   * @private
+   */
+  private readonly circuitBreaker?: CircuitBreakerParams;
+
+  /**
+   * Circuit breakers for the valve (or each subqueue when tripping per subqueue)
+   * @type {Map}
+   * @readonly
+   * @private
+   */
+  private readonly circuits = new Map<unknown, CircuitBreaker>();
+
+  /**
+   * Window for collecting keys into a single batch fetcher run
+   * @type {BatchWindow | undefined}
+   * @readonly
+   * @private
+   */
+  private readonly batchWindow?: BatchWindow;
+
+  /**
+   * Batch fetcher run waiting on the batch window to close
+   * @type {PendingBatch | undefined}
+   * @private
+   */
+  private pendingBatch?: PendingBatch<SubqueueKeyType>;
+
+  /**
+   * Maximum number of keys passed to a single batch fetcher invocation
+   * @type {number | undefined}
+   * @readonly
+   * @private
+   */
+  private readonly maxBatchSize?: number;
+
+  /**
+   * Maximum number of batch fetcher chunks running in parallel
+   * @type {number | undefined}
+   * @readonly
+   * @private
+   */
+  private readonly maxParallelBatches?: number;
+
+  /**
+   * Limits the number of fetcher invocations running at the same time
+   * @type {ConcurrencyLimiter | undefined}
+   * @readonly
+   * @private
+   */
+  private readonly limiter?: ConcurrencyLimiter;
+
+  /**
+   * Cumulative counters of the valve
+   * @type {StatsCollector}
+   * @readonly
+   * @private
+   */
+  private readonly collector = new StatsCollector();
+
+  /**
+   * Tracer for opening spans around fetcher invocations
+   * @type {Tracer | undefined}
+   * @readonly
+   * @private
+   */
+  private readonly tracer?: Tracer;
+
+  /**
+   * Number of milliseconds retained results are considered fresh
+   * @type {number | undefined}
+   * @readonly
+   * @private
+   */
+  private readonly freshFor?: number;
+
+  /**
+   * Retained results of recently completed fetcher processes
+   * @type {ResultCache | undefined}
+   * @readonly
+   * @private
+   */
+  private readonly results?: ResultCache<unknown, DrainResult>;
+
   /**
    * Queue of promise callbacks
-   * @type {PromiseStore[]}
+   * @type {ActiveQueue | undefined}
    * @private
    */
-  private queue?: PromiseStore<DrainResult>[];
+  private queue?: ActiveQueue<DrainResult>;
 
   /**
-   * Keyed subqueues of promise callbacks
+   * Keyed subqueues of promise callbacks (keyed by the serialized subqueue key)
    * @type {Map}
    * @private
    */
-  private subqueues = new Map<SubqueueKeyType, PromiseStore<DrainResult>[]>();
+  private subqueues = new Map<unknown, ActiveQueue<DrainResult>>();
+
+  /**
+   * Serializes subqueue keys for internal lookups
+   * @type {Function | undefined}
+   * @readonly
+   * @private
+   */
+  private readonly keyFn?: (subqueue: SubqueueKeyType) => PropertyKey;
+
+  /**
+   * Resolves once every queue has drained after closing the valve
+   * @type {Promise | undefined}
+   * @private
+   */
+  private closing?: Promise<void>;
+
+  /**
+   * Resolves the closing promise
+   * @type {Function | undefined}
+   * @private
+   */
+  private drained?: () => void;
 
   /**
    * Creates an instance of BurstValve with a custom fetcher
@@ -145,6 +759,8 @@ export class BurstValve<
       | BurstValveParams<DrainResult, SubqueueKeyType>,
     fetcher?: FetcherProcess<DrainResult, SubqueueKeyType>
   ) {
+    super();
+
     // (displayName, fetcher)
     if (typeof displayName === "string") {
       this.displayName = displayName;
@@ -160,18 +776,212 @@ export class BurstValve<
       this.displayName = displayName.displayName || "Burst Valve";
       this.fetcher = displayName.fetch;
       this.batchFetcher = displayName.batch;
-    }
+      this.timeout = displayName.timeout;
 
-    // Ensure some fetching process is defined
-    if (!this.fetcher && !this.batchFetcher) {
-      throw new Error(`No fetcher process defined on ${this.displayName}`);
-    }
-    // Ensure there is only one fetcher process
-    else if (this.fetcher && this.batchFetcher) {
-      throw new Error(
+      if (displayName.staleWhileRevalidate) {
+        if (displayName.resultTtl) {
+          throw new Error(
+            `Cannot define both a result ttl and stale-while-revalidate at the same time for ${this.displayName}`
+          );
+        } else if (
+          displayName.staleWhileRevalidate.staleFor <=
+          displayName.staleWhileRevalidate.freshFor
+        ) {
+          throw new Error(
+            `Stale window must be longer than the fresh window for ${this.displayName}`
+          );
+        }
+
+        this.freshFor = displayName.staleWhileRevalidate.freshFor;
+        this.resultTtl = displayName.staleWhileRevalidate.staleFor;
+      } else {
+        this.resultTtl = displayName.resultTtl;
+      }
+
+      if (this.resultTtl) {
+        this.results = new ResultCache(displayName.maxResults ?? 1000);
+      }
+
+      this.retry = displayName.retry;
+      this.circuitBreaker = displayName.circuitBreaker;
+      this.batchWindow = displayName.batchWindow;
+
+      if (
+        (displayName.maxBatchSize !== undefined &&
+          displayName.maxBatchSize < 1) ||
+        (displayName.maxParallelBatches !== undefined &&
+          displayName.maxParallelBatches < 1)
+      ) {
+        throw new Error(
+          `Batch size and parallel batch limits must be at least 1 for ${this.displayName}`
+        );
+      }
+      this.maxBatchSize = displayName.maxBatchSize;
+      this.maxParallelBatches = displayName.maxParallelBatches;
+
+      if (displayName.maxConcurrency !== undefined) {
+        if (
+          displayName.maxConcurrency < 1 ||
+          (displayName.maxPending !== undefined && displayName.maxPending < 0)
+        ) {
+          throw new Error(
+            `Concurrency limit must be at least 1, with a non-negative pending limit for ${this.displayName}`
+          );
+        }
+
+        this.limiter = new ConcurrencyLimiter(
+          displayName.maxConcurrency,
+          displayName.maxPending
+        );
+      }
+
+      this.tracer = displayName.tracer;
+      this.keyFn = displayName.keyFn;
+
+      // Elect a single worker (or thread) to run each fetch across the cluster,
+      // with the distributed lock electing a single host across the fleet
+      if (displayName.cluster && displayName.threads) {
+        throw new Error(
+          `Cannot coalesce across both cluster workers and threads at the same time for ${this.displayName}`
+        );
+      } else if (
+        (displayName.cluster ||
+          displayName.threads ||
+          displayName.distributedLock) &&
+        !displayName.displayName
+      ) {
+        throw new Error(
+          `Display name is required to coalesce across processes, valves are matched by name`
+        );
+      }
+      const coordinators: Array<FetchCoordinator | undefined> = [
+        displayName.distributedLock &&
+          new DistributedLock(displayName.distributedLock),
+        displayName.threads
+          ? getThreadChannel(
+              displayName.threads === true ? undefined : displayName.threads
+            )
+          : displayName.cluster === true
+          ? getWorkerChannel()
+          : displayName.cluster || undefined,
+      ];
+      for (const coordinator of coordinators) {
+        if (coordinator) {
+          this.fetcher =
+            this.fetcher &&
+            coordinator.wrapFetcher(
+              this.displayName,
+              this.fetcher,
+              (subqueue) => this.keyOf(subqueue)
+            );
+          this.batchFetcher =
+            this.batchFetcher &&
+            coordinator.wrapBatchFetcher(
+              this.displayName,
+              this.batchFetcher,
+              (subqueue) => this.keyOf(subqueue)
+            );
+        }
+      }
+
+      // Attach lifecycle event listeners
+      const hooks = displayName.hooks || {};
+      (Object.keys(hooks) as Array<keyof typeof hooks>).forEach((event) => {
+        const listener = hooks[event];
+        if (listener) {
+          super.on(event, listener);
+        }
+      });
+
+      if (displayName.errorTtl) {
+        this.errorTtl = displayName.errorTtl;
+        this.shouldCacheError = displayName.shouldCacheError;
+        this.errors = new ResultCache(displayName.maxResults ?? 1000);
+      }
+    }
+
+    // Ensure some fetching process is defined
+    if (!this.fetcher && !this.batchFetcher) {
+      throw new Error(`No fetcher process defined on ${this.displayName}`);
+    }
+    // Ensure there is only one fetcher process
+    else if (this.fetcher && this.batchFetcher) {
+      throw new Error(
         `Cannot define both a batch fetcher and a single fetcher at the same time for ${this.displayName}`
       );
     }
+
+    // Register the valve once it is fully configured
+    if (typeof displayName === "object" && displayName.registry) {
+      (displayName.registry === true
+        ? defaultRegistry
+        : displayName.registry
+      ).register(this);
+    }
+  }
+
+  /**
+   * Attaches a listener for the lifecycle event specified
+   * @param {string} event Name of the lifecycle event
+   * @param {Function} listener Callback receiving the event payload
+   * @returns {BurstValve} The valve, for chaining
+   */
+  public on<Event extends keyof BurstValveEvents<DrainResult, SubqueueKeyType>>(
+    event: Event,
+    listener: (
+      payload: BurstValveEvents<DrainResult, SubqueueKeyType>[Event]
+    ) => void
+  ): this {
+    return super.on(event, listener);
+  }
+
+  /**
+   * Attaches a listener for the next occurrence of the lifecycle event specified
+   * @param {string} event Name of the lifecycle event
+   * @param {Function} listener Callback receiving the event payload
+   * @returns {BurstValve} The valve, for chaining
+   */
+  public once<
+    Event extends keyof BurstValveEvents<DrainResult, SubqueueKeyType>
+  >(
+    event: Event,
+    listener: (
+      payload: BurstValveEvents<DrainResult, SubqueueKeyType>[Event]
+    ) => void
+  ): this {
+    return super.once(event, listener);
+  }
+
+  /**
+   * Detaches a listener from the lifecycle event specified
+   * @param {string} event Name of the lifecycle event
+   * @param {Function} listener Callback previously attached
+   * @returns {BurstValve} The valve, for chaining
+   */
+  public off<
+    Event extends keyof BurstValveEvents<DrainResult, SubqueueKeyType>
+  >(
+    event: Event,
+    listener: (
+      payload: BurstValveEvents<DrainResult, SubqueueKeyType>[Event]
+    ) => void
+  ): this {
+    return super.off(event, listener);
+  }
+
+  /**
+   * Emits a lifecycle event to every attached listener
+   * @param {string} event Name of the lifecycle event
+   * @param {object} payload Event payload
+   * @returns {boolean} True/False indicating if the event had listeners
+   */
+  public emit<
+    Event extends keyof BurstValveEvents<DrainResult, SubqueueKeyType>
+  >(
+    event: Event,
+    payload: BurstValveEvents<DrainResult, SubqueueKeyType>[Event]
+  ): boolean {
+    return super.emit(event, payload);
   }
 
   /**
@@ -180,19 +990,110 @@ export class BurstValve<
    * @returns {Boolean} True/False indicating if queue (or subqueue) is active
    */
   public isActive(subqueue?: SubqueueKeyType): boolean {
-    if (subqueue !== undefined) {
-      return this.subqueues.has(subqueue);
-    } else {
-      return this.queue ? true : false;
+    return this.getQueue(subqueue) ? true : false;
+  }
+
+  /**
+   * Determines the state of the circuit breaker guarding the valve (or subqueue)
+   * @param {SubqueueKeyType} [subqueue] Unique identifier of the subqueue to check, when tripping per subqueue
+   * @returns {CircuitState} State of the circuit, always closed when no circuit breaker is configured
+   */
+  public circuitState(subqueue?: SubqueueKeyType): CircuitState {
+    return this.getCircuit(subqueue)?.state ?? "closed";
+  }
+
+  /**
+   * Creates a point in time view of the valve's cumulative counters, along
+   * with gauges of the currently active queues
+   * @returns {BurstValveStats} Statistics of the valve
+   */
+  public stats(): BurstValveStats {
+    const queues = [...this.subqueues.values()];
+    if (this.queue) {
+      queues.push(this.queue);
+    }
+
+    return {
+      displayName: this.displayName,
+      ...this.collector.snapshot(),
+      activeQueues: queues.length,
+      waiters: queues.reduce((sum, queue) => sum + queue.waiters.length, 0),
+      maxWaiters: queues.reduce(
+        (max, queue) => Math.max(max, queue.waiters.length),
+        0
+      ),
+      pendingFetches: this.limiter?.queued ?? 0,
+    };
+  }
+
+  /**
+   * Lists the queues (and subqueues) with an in-flight fetcher run
+   * @returns {InFlightQueue[]} Identifier, number of waiters and start time of each queue
+   */
+  public inFlight(): InFlightQueue<SubqueueKeyType>[] {
+    const queues = [...this.subqueues.values()];
+    if (this.queue) {
+      queues.push(this.queue);
+    }
+
+    return queues.map((queue) => ({
+      subqueue: queue.subqueue as SubqueueKeyType | undefined,
+      waiters: queue.waiters.length,
+      startedAt: queue.startedAt,
+    }));
+  }
+
+  /**
+   * Resets the valve's cumulative counters back to zero
+   */
+  public resetStats(): void {
+    this.collector.reset();
+  }
+
+  /**
+   * Determines if the valve has been closed to new fetches
+   * @returns {Boolean} True/False indicating if the valve is closed
+   */
+  public get isClosed(): boolean {
+    return this.closing !== undefined;
+  }
+
+  /**
+   * Stops the valve from accepting new fetches, rejecting them with a
+   * ValveClosedError, while letting queues already in flight drain
+   * @param {CloseOptions} [options] Close options
+   * @returns {Promise<void>} Resolves once every queue has drained
+   */
+  public close(options?: CloseOptions): Promise<void> {
+    if (!this.closing) {
+      this.closing = new Promise<void>((resolve) => (this.drained = resolve));
+    }
+
+    // Reject every waiting caller instead of waiting on the fetcher runs
+    if (options?.force) {
+      const error = new ValveClosedError(this.displayName);
+      const queues = [...this.subqueues.values()];
+      if (this.queue) {
+        queues.push(this.queue);
+      }
+
+      queues.forEach((queue) => this.closeQueue(queue, error));
     }
+
+    this.checkDrained();
+    return this.closing;
   }
 
   /**
    * Leverages the current valve to only have a single running process of a function
    * @param {SubqueueKeyType} [subqueue] Unique identifier of the subqueue to fetch data for
+   * @param {FetchOptions} [options] Per call options
    * @returns {DrainResult} Result of the fetch
    */
-  public async fetch(subqueue?: SubqueueKeyType): Promise<DrainResult> {
+  public async fetch(
+    subqueue?: SubqueueKeyType,
+    options?: FetchOptions
+  ): Promise<DrainResult> {
     if (this.batchFetcher) {
       if (subqueue === undefined) {
         throw new Error(
@@ -200,7 +1101,7 @@ export class BurstValve<
         );
       }
 
-      return (await this.unsafeBatch([subqueue]))[0];
+      return (await this.unsafeBatch([subqueue], options))[0];
     }
 
     // Type safety for fetcher process
@@ -208,35 +1109,59 @@ export class BurstValve<
     if (!fetcher) {
       throw new Error(`Fetch process not defined for ${this.displayName}`);
     }
+    this.checkAccepting(options);
+    this.collector.calls++;
 
-    return new Promise<DrainResult>((resolve, reject) => {
-      // Subqueue defined
-      if (subqueue) {
-        const list = this.subqueues.get(subqueue);
-        if (list) {
-          return list.push({ resolve, reject });
-        } else {
-          this.subqueues.set(subqueue, [{ resolve, reject }]);
+    // Answer from retained results when available, refreshing
+    // in the background once they are no longer fresh
+    const retained = this.results?.get(this.keyOf(subqueue));
+    if (retained) {
+      if (this.shouldRefresh(subqueue, retained)) {
+        const run = { controller: new AbortController(), remaining: 0 };
+        if (!this.checkRun(subqueue, run)) {
+          this.activateQueue(subqueue, run);
+          this.startFetcher(fetcher, run, subqueue);
         }
       }
-      // Global queue
-      else {
-        if (this.queue) {
-          return this.queue.push({ resolve, reject });
-        } else {
-          this.queue = [{ resolve, reject }];
+
+      return retained.value;
+    }
+
+    // Replay retained errors
+    const failure = this.errors?.get(this.keyOf(subqueue));
+    if (failure) {
+      throw failure.value;
+    }
+
+    return new Promise<DrainResult>((resolve, reject) => {
+      let queue = this.getQueue(subqueue);
+      let run: FetcherRun | undefined;
+
+      // Start a new fetcher run when there isn't an active queue
+      if (!queue) {
+        run = { controller: new AbortController(), remaining: 0 };
+
+        // Block new fetcher runs while the circuit is open or the pending queue is full
+        const blockedError = this.checkRun(subqueue, run);
+        if (blockedError) {
+          return reject(blockedError);
         }
+
+        queue = this.activateQueue(subqueue, run);
+      } else {
+        this.collector.coalesced++;
+        this.notify("coalesce", { displayName: this.displayName, subqueue });
       }
 
-      // Run the fetcher process and flush the results
-      fetcher(subqueue)
-        .then((value) => this.flushResult(subqueue, value))
-        .catch((e) =>
-          this.flushResult(
-            subqueue,
-            optionallyWrapError(e, `Fetcher error for ${this.displayName}`)
-          )
-        );
+      this.joinQueues(
+        [{ subqueue, queue, store: { resolve, reject } }],
+        options
+      ).catch(reject);
+
+      // Run the fetcher process only if there isn't one already active
+      if (run) {
+        this.startFetcher(fetcher, run, subqueue);
+      }
     });
   }
 
@@ -244,307 +1169,1745 @@ export class BurstValve<
    * Batches fetching of unique identifiers into a single process, waiting
    * for existing queues if they already exist
    * @param {SubqueueKeyType[]} subqueues List of unique identifiers to fetch at once
+   * @param {FetchOptions} [options] Per call options
    * @returns {Array<DrainResult | Error>} List of fetch results or exceptions
    */
   public async batch(
-    subqueues: SubqueueKeyType[]
+    subqueues: SubqueueKeyType[],
+    options?: FetchOptions
   ): Promise<Array<DrainResult | Error>> {
-    return this.runBatch(subqueues);
+    return this.runBatch(subqueues, options);
   }
 
   /**
    * Same as batch, except throws any errors that are found during the fetching
    * process rather returning them. Simplifies the return array to only results
    * @param {SubqueueKeyType[]} subqueues List of unique identifiers to fetch at once
+   * @param {FetchOptions} [options] Per call options
    * @returns {DrainResult[]} List of batch results
    */
   public async unsafeBatch(
-    subqueues: SubqueueKeyType[]
+    subqueues: SubqueueKeyType[],
+    options?: FetchOptions
   ): Promise<Array<DrainResult>> {
-    return this.runBatch(subqueues, true);
+    return this.runBatch(subqueues, options, true);
   }
 
   /**
    * Exposes results for fetching each unique identifier as the data becomes available
    * @param {SubqueueKeyType[]} subqueues List of unique identifiers to fetch at once
    * @param {Function} streamResultCallback Iterative callback for each result as it is available
+   * @param {StreamOptions} [options] Per call options
    */
   public async stream(
     subqueues: SubqueueKeyType[],
     streamResultCallback: (
       subqueue: SubqueueKeyType,
       result: DrainResult | Error
-    ) => Promise<void>
+    ) => Promise<void>,
+    options?: StreamOptions
   ): Promise<void> {
-    const uniqueKeys = new Set<SubqueueKeyType>(subqueues);
-    const fetchBatchKeys: SubqueueKeyType[] = [];
-    const streamResponses: Promise<void>[] = [];
+    if (!this.batchFetcher) {
+      throw new Error(
+        `Batch Fetcher Process not defined for ${this.displayName}`
+      );
+    }
+    this.checkAccepting(options);
+    this.collector.calls++;
 
-    // Look for active subqueue for each identifier before creating one
-    for (const id of uniqueKeys) {
-      let list = this.subqueues.get(id);
+    const uniqueKeys = this.uniqueKeys(subqueues);
+    if (options?.ordered) {
+      streamResultCallback = this.orderedCallback(
+        uniqueKeys,
+        streamResultCallback
+      );
+    }
+    const run = this.batchRun();
+    const { entries, fetchBatchKeys, refreshKeys } = this.sortBatchKeys(
+      uniqueKeys,
+      run
+    );
+    const waiters: QueueWaiter<DrainResult, SubqueueKeyType>[] = [];
 
-      if (!list) {
-        this.subqueues.set(id, (list = []));
-        fetchBatchKeys.push(id);
+    const streamResponses = entries.map((entry) => {
+      const id = entry.subqueue;
+      if ("result" in entry) {
+        return streamResultCallback(id, entry.result);
+      } else if ("error" in entry) {
+        return streamResultCallback(id, entry.error);
       }
 
-      streamResponses.push(
-        new Promise<void>((resolve, reject) => {
-          (list as PromiseStore<DrainResult>[]).push({
+      return new Promise<void>((resolve, reject) => {
+        waiters.push({
+          subqueue: id,
+          queue: entry.queue,
+          store: {
             resolve: (value) => {
               streamResultCallback(id, value).then(resolve).catch(reject);
             },
             reject: (error) => {
               streamResultCallback(id, error).then(resolve).catch(reject);
             },
-          });
-        })
-      );
-    }
+          },
+        });
+      });
+    });
+
+    const interrupted = this.joinQueues(waiters, options);
 
     // Only trigger batch fetcher if there are inactive keys to fetch
-    const batchPromise =
-      fetchBatchKeys.length > 0
-        ? this.runBatchFetcher(fetchBatchKeys)
-        : Promise.resolve();
+    const batchPromise = this.runBatchKeys(fetchBatchKeys, refreshKeys, run);
 
     // Wait for all queues to resolve
-    await Promise.all([batchPromise, ...streamResponses]);
+    await Promise.race([
+      Promise.all([batchPromise, ...streamResponses]),
+      interrupted.then(() => Promise.all(streamResponses)),
+    ]);
+  }
+
+  /**
+   * Exposes results for fetching each unique identifier as an async iterable, yielding
+   * in the order the data becomes available. Breaking out of the iteration early
+   * leaves any queues still in flight, just like aborting a stream
+   * @param {SubqueueKeyType[]} subqueues List of unique identifiers to fetch at once
+   * @param {StreamOptions} [options] Per call options
+   * @returns {AsyncGenerator} Iterable of identifier and result (or exception) pairs
+   */
+  public async *iterate(
+    subqueues: SubqueueKeyType[],
+    options?: StreamOptions
+  ): AsyncGenerator<[SubqueueKeyType, DrainResult | Error], void, undefined> {
+    this.checkAccepting(options);
+
+    // Leave the queues when either the caller aborts or the iteration ends early
+    const controller = new AbortController();
+    const onAbort = () => controller.abort(options?.signal?.reason);
+    options?.signal?.addEventListener("abort", onAbort);
+
+    // Buffer results that arrive while the consumer is busy
+    const buffer: Array<[SubqueueKeyType, DrainResult | Error]> = [];
+    let wake: (() => void) | undefined;
+    let done = false;
+    let failure: { error: unknown } | undefined;
+
+    const streaming = this.stream(
+      subqueues,
+      async (id, result) => {
+        buffer.push([id, result]);
+        wake?.();
+      },
+      { ...options, signal: controller.signal }
+    )
+      .catch((error) => {
+        failure = { error };
+      })
+      .finally(() => {
+        done = true;
+        wake?.();
+      });
+
+    try {
+      for (;;) {
+        const next = buffer.shift();
+        if (next) {
+          yield next;
+        } else if (done) {
+          break;
+        } else {
+          await new Promise<void>((resolve) => (wake = resolve));
+          wake = undefined;
+        }
+      }
+
+      if (failure) {
+        throw failure.error;
+      }
+    } finally {
+      options?.signal?.removeEventListener("abort", onAbort);
+
+      // Detach from any queues still in flight when the consumer stops early
+      if (!done) {
+        controller.abort();
+        await streaming;
+      }
+    }
+  }
+
+  /**
+   * Exposes the stream of results as a node Readable, in object mode unless serializing
+   * to NDJSON. Results are only pulled while the consumer's buffer has room, and
+   * destroying the Readable leaves any queues still in flight
+   * @param {SubqueueKeyType[]} subqueues List of unique identifiers to fetch at once
+   * @param {ReadableOptions} [options] Per call options
+   * @returns {Readable} Readable of identifier and result pairs (or NDJSON lines)
+   */
+  public toReadable(
+    subqueues: SubqueueKeyType[],
+    options?: ReadableOptions
+  ): Readable {
+    return createReadable(
+      (signal) => this.iterate(subqueues, { ...options, signal }),
+      options?.ndjson === true,
+      options?.signal
+    );
+  }
+
+  /**
+   * Exposes the stream of results as NDJSON bytes in a WHATWG ReadableStream
+   * @param {SubqueueKeyType[]} subqueues List of unique identifiers to fetch at once
+   * @param {ReadableOptions} options Per call options, serializing to NDJSON
+   * @returns {ReadableStream} ReadableStream of NDJSON bytes
+   */
+  public toReadableStream(
+    subqueues: SubqueueKeyType[],
+    options: ReadableOptions & { ndjson: true }
+  ): ReadableStream<Uint8Array>;
+
+  /**
+   * Exposes the stream of results as a WHATWG ReadableStream
+   * @param {SubqueueKeyType[]} subqueues List of unique identifiers to fetch at once
+   * @param {ReadableOptions} [options] Per call options
+   * @returns {ReadableStream} ReadableStream of identifier and result pairs
+   */
+  public toReadableStream(
+    subqueues: SubqueueKeyType[],
+    options?: ReadableOptions
+  ): ReadableStream<[SubqueueKeyType, DrainResult | Error]>;
+
+  /**
+   * Exposes the stream of results as a WHATWG ReadableStream. Results are only pulled
+   * while the consumer's queue has room, and cancelling the stream leaves any
+   * queues still in flight
+   * @param {SubqueueKeyType[]} subqueues List of unique identifiers to fetch at once
+   * @param {ReadableOptions} [options] Per call options
+   * @returns {ReadableStream} ReadableStream of identifier and result pairs (or NDJSON bytes)
+   */
+  public toReadableStream(
+    subqueues: SubqueueKeyType[],
+    options?: ReadableOptions
+  ): ReadableStream<[SubqueueKeyType, DrainResult | Error] | Uint8Array> {
+    return createReadableStream(
+      (signal) => this.iterate(subqueues, { ...options, signal }),
+      options?.ndjson === true,
+      options?.signal
+    );
+  }
+
+  /**
+   * Wraps a stream callback to deliver results in the order of the identifiers
+   * passed. Results arriving early are held until every identifier before them
+   * has been delivered, and each callback waits on the one before it
+   * @param {SubqueueKeyType[]} subqueues Deduped list of identifiers in delivery order
+   * @param {Function} streamResultCallback Iterative callback for each result
+   * @returns {Function} Stream callback resolving once the result has been delivered
+   */
+  private orderedCallback(
+    subqueues: SubqueueKeyType[],
+    streamResultCallback: (
+      subqueue: SubqueueKeyType,
+      result: DrainResult | Error
+    ) => Promise<void>
+  ): (subqueue: SubqueueKeyType, result: DrainResult | Error) => Promise<void> {
+    const arrived = new Map<
+      SubqueueKeyType,
+      { result: DrainResult | Error; store: PromiseStore<void> }
+    >();
+    let next = 0;
+    let delivered = Promise.resolve();
+
+    return (subqueue, result) =>
+      new Promise<void>((resolve, reject) => {
+        arrived.set(subqueue, { result, store: { resolve, reject } });
+
+        // Deliver every result at the head of the line
+        for (
+          let head = arrived.get(subqueues[next]);
+          head;
+          head = arrived.get(subqueues[next])
+        ) {
+          const id = subqueues[next++];
+          const { result, store } = head;
+          arrived.delete(id);
+
+          delivered = delivered
+            .then(() => streamResultCallback(id, result))
+            .then(store.resolve, store.reject);
+        }
+      });
   }
 
   /**
    * Normalized runner for batch and batchUnsafe
    * @param {SubqueueKeyType[]} subqueues List of unique identifiers to fetch at once
+   * @param {FetchOptions} [options] Per call options
    * @returns {Array<DrainResult | Error>} List of batch results or exceptions
    */
   private async runBatch(
-    subqueues: SubqueueKeyType[]
+    subqueues: SubqueueKeyType[],
+    options?: FetchOptions
   ): Promise<Array<DrainResult | Error>>;
 
   /**
    * Normalized runner for batch and batchUnsafe
    * @param {SubqueueKeyType} subqueues List of unique identifiers to fetch at once
+   * @param {FetchOptions | undefined} options Per call options
    * @param {Boolean} raiseExceptions Indicates if exceptions should be raised when found
    * @returns {DrainResult[]} List of batch results
    */
   private async runBatch(
     subqueues: SubqueueKeyType[],
+    options: FetchOptions | undefined,
     raiseExceptions: true
   ): Promise<Array<DrainResult>>;
 
   /**
    * Normalized runner for batch and batchUnsafe
    * @param {SubqueueKeyType[]} subqueues List of unique identifiers to fetch at once
+   * @param {FetchOptions} [options] Per call options
    * @param {Boolean} [raiseExceptions] Indicates if exceptions should be raised when found
    * @returns {Array<DrainResult | Error>} List of batch results or exceptions
    */
   private async runBatch(
     subqueues: SubqueueKeyType[],
+    options?: FetchOptions,
     raiseExceptions?: true
   ): Promise<Array<DrainResult | Error>> {
-    const results = new Map<SubqueueKeyType, DrainResult | Error>();
-    const fetchBatchKeys: SubqueueKeyType[] = [];
-    const fetchPromises: Promise<void>[] = [];
+    if (!this.batchFetcher) {
+      throw new Error(
+        `Batch Fetcher Process not defined for ${this.displayName}`
+      );
+    }
+    this.checkAccepting(options);
+    this.collector.calls++;
 
-    // Look for active subqueue for each identifier before creating one
-    for (const id of subqueues) {
-      const list = this.subqueues.get(id);
+    const results = new Map<unknown, DrainResult | Error>();
+    const run = this.batchRun();
+    const { entries, fetchBatchKeys, refreshKeys } = this.sortBatchKeys(
+      this.uniqueKeys(subqueues),
+      run
+    );
+    const waiters: QueueWaiter<DrainResult, SubqueueKeyType>[] = [];
+    const fetchPromises: Promise<void>[] = [];
 
-      // Dedupe fetch keys
-      if (fetchBatchKeys.includes(id)) {
-        continue;
-      }
-      // Wait for existing queue if it exists
-      else if (list) {
+    for (const entry of entries) {
+      const id = entry.subqueue;
+      if ("result" in entry) {
+        results.set(this.keyOf(id), entry.result);
+      } else if ("error" in entry) {
+        if (raiseExceptions) {
+          fetchPromises.push(Promise.reject(entry.error));
+        } else {
+          results.set(this.keyOf(id), entry.error);
+        }
+      } else {
         fetchPromises.push(
           new Promise<void>((queuedResolve, queuedReject) => {
-            list.push({
-              resolve: (value) => {
-                if (!results.has(id)) {
-                  results.set(id, value);
-                }
-                queuedResolve();
-              },
-              reject: (error) => {
-                if (raiseExceptions) {
-                  return queuedReject(error);
-                } else if (!results.has(id)) {
-                  results.set(id, error);
-                }
-                queuedResolve();
+            waiters.push({
+              subqueue: id,
+              queue: entry.queue,
+              store: {
+                resolve: (value) => {
+                  results.set(this.keyOf(id), value);
+                  queuedResolve();
+                },
+                reject: (error) => {
+                  if (raiseExceptions) {
+                    return queuedReject(error);
+                  }
+
+                  results.set(this.keyOf(id), error);
+                  queuedResolve();
+                },
               },
             });
           })
         );
       }
-      // Mark subqueue as active before adding fetch key
-      else {
-        this.subqueues.set(id, []);
-        fetchBatchKeys.push(id);
-      }
     }
 
+    const interrupted = this.joinQueues(waiters, options);
+
     // Only trigger batch fetcher if there are inactive keys to fetch
-    const batcherPromise =
-      fetchBatchKeys.length > 0
-        ? this.runBatchFetcher(fetchBatchKeys, results, raiseExceptions)
-        : Promise.resolve();
+    const batcherPromise = this.runBatchKeys(fetchBatchKeys, refreshKeys, run);
 
     // Wait for all queues to resolve
-    await Promise.all([...fetchPromises, batcherPromise]);
+    await Promise.race([
+      Promise.all([...fetchPromises, batcherPromise]),
+      interrupted.then(() => Promise.all(fetchPromises)),
+    ]);
 
     // Return the results
-    return subqueues.map((id) => results.get(id) as DrainResult | Error);
+    return subqueues.map(
+      (id) => results.get(this.keyOf(id)) as DrainResult | Error
+    );
   }
 
   /**
-   * Runs the user defined batch fetcher process
-   * @param {SubqueueKeyType[]} subqueues List of unique identifiers to fetch at once
-   * @param {Map} [results] Optional list of shared results
-   * @param {Boolean} [raiseExceptions] Indicates if errors should be thrown rather than returned
+   * Finds the batch fetcher run for new keys to be added to, opening
+   * a new batch window when one is configured
+   * @returns {FetcherRun} Shared state of the fetcher run
    */
-  private async runBatchFetcher(
-    subqueues: SubqueueKeyType[],
-    results?: Map<SubqueueKeyType, DrainResult | Error>,
-    raiseExceptions?: true
-  ): Promise<void> {
-    return new Promise<void>((resolve, reject) => {
-      if (!this.batchFetcher) {
-        return reject(
-          new Error(`Batch Fetcher Process not defined for ${this.displayName}`)
-        );
-      }
+  private batchRun(): FetcherRun {
+    if (this.batchWindow === undefined) {
+      return { controller: new AbortController(), remaining: 0 };
+    }
+    // Join the open window, unless every key in it has been abandoned
+    else if (
+      this.pendingBatch &&
+      !this.pendingBatch.run.controller.signal.aborted
+    ) {
+      return this.pendingBatch.run;
+    }
 
-      // Keep reference to completed queues
-      const responses = new Set<SubqueueKeyType>();
+    const pending: PendingBatch<SubqueueKeyType> = {
+      run: { controller: new AbortController(), remaining: 0 },
+      keys: [],
+      promise: new Promise<void>((resolve, reject) => {
+        const dispatch = () => {
+          if (this.pendingBatch === pending) {
+            this.pendingBatch = undefined;
+          }
 
-      // Trigger the batch fetching process
-      let finished = false;
-      this.batchFetcher(subqueues, (key, value) => {
-        // Ignore any writes once the actual fetch process has completed
-        if (finished) {
-          throw new Error(
-            `Batch fetcher process has already completed for ${this.displayName}`
+          // Skip any keys abandoned while waiting on the window to close
+          const keys = pending.keys.filter((id) =>
+            this.isQueueRun(id, pending.run)
           );
-        }
-        // Do not override previous results as they have already been flushed
-        else if (!responses.has(key)) {
-          if (raiseExceptions && value instanceof Error) {
-            throw value;
+          if (keys.length > 0) {
+            this.runBatchFetcher(keys, pending.run).then(resolve, reject);
+          } else {
+            resolve();
           }
+        };
 
-          responses.add(key);
-          results?.set(key, value);
-          this.flushResult(key, value);
+        // Wait on the pending promise continuations before the next tick,
+        // the same way DataLoader schedules its batches
+        if (this.batchWindow === "tick") {
+          Promise.resolve().then(() => process.nextTick(dispatch));
+        } else if (this.batchWindow === "microtask") {
+          queueMicrotask(dispatch);
+        } else {
+          setTimeout(dispatch, this.batchWindow);
         }
-      })
-        .then((batchResult) => {
-          finished = true;
+      }),
+    };
 
-          if (batchResult) {
-            // Batch process returns array of results matching the index list it was sent
-            if (Array.isArray(batchResult)) {
-              // Enforce array results length must match number of keys passed
-              if (batchResult.length !== subqueues.length) {
-                return reject(
-                  new Error(
-                    `Batch fetcher result array length does not match key length for ${this.displayName}`
-                  )
-                );
-              }
+    this.pendingBatch = pending;
+    return pending.run;
+  }
 
-              // Assign results
-              subqueues.forEach((id, index) => {
-                if (!responses.has(id)) {
-                  const value = batchResult[index];
+  /**
+   * Runs the batch fetcher for inactive keys, grouping any stale keys into the
+   * same process. Refreshing stale keys alone happens in the background
+   * @param {SubqueueKeyType[]} fetchBatchKeys Inactive keys the caller is waiting on
+   * @param {SubqueueKeyType[]} refreshKeys Stale keys to refresh
+   * @param {FetcherRun} run Shared state of the fetcher run
+   * @returns {Promise<void>} Batch fetcher promise the caller should wait on
+   */
+  private runBatchKeys(
+    fetchBatchKeys: SubqueueKeyType[],
+    refreshKeys: SubqueueKeyType[],
+    run: FetcherRun
+  ): Promise<void> {
+    let promise: Promise<void> | undefined;
 
-                  responses.add(id);
-                  results?.set(id, value);
-                  this.flushResult(id, value);
-                }
-              });
+    // Add keys to the batch window when it is still open
+    if (this.pendingBatch?.run === run) {
+      this.pendingBatch.keys.push(...fetchBatchKeys, ...refreshKeys);
+      promise = this.pendingBatch.promise;
+    } else if (fetchBatchKeys.length > 0 || refreshKeys.length > 0) {
+      promise = this.runBatchFetcher([...fetchBatchKeys, ...refreshKeys], run);
+    }
 
-              return resolve();
-            }
-            // Batch process returns map of results
-            else if (batchResult instanceof Map) {
-              batchResult.forEach((value, id) => {
-                if (!responses.has(id)) {
-                  responses.add(id);
-                  results?.set(id, value);
-                  this.flushResult(id, value);
-                }
-              });
-            }
-          }
+    if (!promise) {
+      return Promise.resolve();
+    } else if (fetchBatchKeys.length > 0) {
+      return promise;
+    }
 
-          // Mark error for each unresolved subqueue key
-          subqueues.forEach((id) => {
-            if (!responses.has(id)) {
-              const error = new Error(
-                `Batch fetcher result not found for '${id}' subqueue in ${this.displayName}`
-              );
-              responses.add(id);
-              results?.set(id, error);
-              this.flushResult(id, error);
-            }
-          });
+    promise.catch(() => undefined);
+    return Promise.resolve();
+  }
 
-          resolve();
-        })
-        .catch((e) => {
-          finished = true;
+  /**
+   * Finds the active queue (or subqueue). Only an undefined key refers to the
+   * global queue, falsy keys such as 0, "" and false are valid subqueues
+   * @param {SubqueueKeyType | undefined} subqueue Unique identifier of the queue
+   * @returns {ActiveQueue | undefined} Active queue when one exists
+   */
+  private getQueue(
+    subqueue: SubqueueKeyType | undefined
+  ): ActiveQueue<DrainResult> | undefined {
+    return subqueue !== undefined
+      ? this.subqueues.get(this.keyOf(subqueue))
+      : this.queue;
+  }
 
-          const error = optionallyWrapError(
-            e,
-            `Batch fetcher error for ${this.displayName}`
-          );
+  /**
+   * Serializes the subqueue key for internal lookups
+   * @param {SubqueueKeyType | undefined} subqueue Unique identifier of the queue
+   * @returns {unknown} Serialized key when a keyFn is configured, otherwise the key itself
+   */
+  private keyOf(subqueue: SubqueueKeyType | undefined): unknown {
+    return this.keyFn && subqueue !== undefined
+      ? this.keyFn(subqueue)
+      : subqueue;
+  }
 
-          subqueues.forEach((id) => {
-            if (!responses.has(id)) {
-              responses.add(id);
-              results?.set(id, error);
-              this.flushResult(id, error);
+  /**
+   * Rejects calls made once the valve is closed, or with an already aborted
+   * signal, before they join any queues
+   * @param {FetchOptions} [options] Per call options
+   */
+  private checkAccepting(options?: FetchOptions): void {
+    if (this.closing) {
+      throw new ValveClosedError(this.displayName);
+    } else if (options?.signal?.aborted) {
+      throw this.abortError(options.signal);
+    }
+  }
+
+  /**
+   * Sorts each identifier of a batch call by how it is answered: from retained
+   * results or errors, with the error blocking a new fetcher run, or by waiting
+   * on its queue. Inactive identifiers (and stale identifiers due for a refresh)
+   * are activated under the batch fetcher run passed
+   * @param {SubqueueKeyType[]} subqueues Deduped list of unique identifiers
+   * @param {FetcherRun} run Shared state of the batch fetcher run
+   * @returns {BatchKeys} Entry of each identifier, along with the keys to fetch and refresh
+   */
+  private sortBatchKeys(
+    subqueues: SubqueueKeyType[],
+    run: FetcherRun
+  ): BatchKeys<DrainResult, SubqueueKeyType> {
+    const keys: BatchKeys<DrainResult, SubqueueKeyType> = {
+      entries: [],
+      fetchBatchKeys: [],
+      refreshKeys: [],
+    };
+
+    for (const id of subqueues) {
+      // Answer from retained results when available
+      const retained = this.results?.get(this.keyOf(id));
+      if (retained) {
+        if (this.shouldRefresh(id, retained) && !this.checkRun(id, run)) {
+          this.activateQueue(id, run);
+          keys.refreshKeys.push(id);
+        }
+
+        keys.entries.push({ subqueue: id, result: retained.value });
+        continue;
+      }
+
+      // Replay retained errors
+      const failure = this.errors?.get(this.keyOf(id));
+      if (failure) {
+        keys.entries.push({ subqueue: id, error: failure.value });
+        continue;
+      }
+
+      // Look for active subqueue before creating one
+      let queue = this.subqueues.get(this.keyOf(id));
+      if (!queue) {
+        // Block new fetcher runs while the circuit is open or the pending queue is full
+        const blockedError = this.checkRun(id, run);
+        if (blockedError) {
+          keys.entries.push({ subqueue: id, error: blockedError });
+          continue;
+        }
+
+        queue = this.activateQueue(id, run);
+        keys.fetchBatchKeys.push(id);
+      } else {
+        this.collector.coalesced++;
+        this.notify("coalesce", {
+          displayName: this.displayName,
+          subqueue: id,
+        });
+      }
+
+      keys.entries.push({ subqueue: id, queue });
+    }
+
+    return keys;
+  }
+
+  /**
+   * Dedupes the list of keys by their serialized form, keeping the first occurrence
+   * @param {SubqueueKeyType[]} subqueues List of unique identifiers
+   * @returns {SubqueueKeyType[]} Deduped list of unique identifiers
+   */
+  private uniqueKeys(subqueues: SubqueueKeyType[]): SubqueueKeyType[] {
+    if (!this.keyFn) {
+      return [...new Set(subqueues)];
+    }
+
+    const seen = new Set<unknown>();
+    return subqueues.filter((id) => {
+      const key = this.keyOf(id);
+      if (seen.has(key)) {
+        return false;
+      }
+
+      seen.add(key);
+      return true;
+    });
+  }
+
+  /**
+   * Marks the queue (or subqueue) as active for the fetcher run specified
+   * @param {SubqueueKeyType | undefined} subqueue Unique identifier of the queue
+   * @param {FetcherRun} run Shared state of the fetcher run
+   * @returns {ActiveQueue} Newly active queue
+   */
+  private activateQueue(
+    subqueue: SubqueueKeyType | undefined,
+    run: FetcherRun
+  ): ActiveQueue<DrainResult> {
+    const queue: ActiveQueue<DrainResult> = {
+      subqueue,
+      waiters: [],
+      run,
+      startedAt: Date.now(),
+    };
+
+    if (subqueue !== undefined) {
+      this.subqueues.set(this.keyOf(subqueue), queue);
+    } else {
+      this.queue = queue;
+    }
+    run.remaining++;
+
+    return queue;
+  }
+
+  /**
+   * Finds the circuit breaker guarding the queue (or subqueue) specified
+   * @param {SubqueueKeyType | undefined} subqueue Unique identifier of the queue
+   * @param {boolean} [create] Creates the circuit breaker when it does not exist yet
+   * @returns {CircuitBreaker | undefined} Circuit breaker when configured
+   */
+  private getCircuit(
+    subqueue: SubqueueKeyType | undefined,
+    create?: boolean
+  ): CircuitBreaker | undefined {
+    if (!this.circuitBreaker) {
+      return undefined;
+    }
+
+    const key = this.circuitBreaker.perSubqueue
+      ? this.keyOf(subqueue)
+      : undefined;
+    let circuit = this.circuits.get(key);
+    if (!circuit && create) {
+      this.circuits.set(
+        key,
+        (circuit = new CircuitBreaker(this.circuitBreaker))
+      );
+    }
+
+    return circuit;
+  }
+
+  /**
+   * Determines if a new fetcher run may start for the queue (or subqueue), blocking
+   * it while the pending queue of the concurrency limit is full or the circuit is open
+   * @param {SubqueueKeyType | undefined} subqueue Unique identifier of the queue
+   * @param {FetcherRun} run Shared state of the fetcher run
+   * @returns {QueueFullError | CircuitOpenError | undefined} Error when the run is blocked
+   */
+  private checkRun(
+    subqueue: SubqueueKeyType | undefined,
+    run: FetcherRun
+  ):
+    | QueueFullError<SubqueueKeyType>
+    | CircuitOpenError<SubqueueKeyType>
+    | undefined {
+    if (this.limiter?.saturated) {
+      return new QueueFullError(this.displayName, subqueue);
+    }
+
+    return this.checkCircuit(subqueue, run);
+  }
+
+  /**
+   * Determines if a new fetcher run may start for the queue (or subqueue)
+   * @param {SubqueueKeyType | undefined} subqueue Unique identifier of the queue
+   * @param {FetcherRun} run Shared state of the fetcher run
+   * @returns {CircuitOpenError | undefined} Error when the run is blocked by an open circuit
+   */
+  private checkCircuit(
+    subqueue: SubqueueKeyType | undefined,
+    run: FetcherRun
+  ): CircuitOpenError<SubqueueKeyType> | undefined {
+    const circuit = this.getCircuit(subqueue, true);
+    if (circuit && !circuit.tryAcquire(run)) {
+      return new CircuitOpenError(
+        this.displayName,
+        this.circuitBreaker?.perSubqueue ? subqueue : undefined
+      );
+    }
+  }
+
+  /**
+   * Records the outcome of a fetcher run with the circuit breaker
+   * @param {SubqueueKeyType | undefined} subqueue Unique identifier of the queue
+   * @param {FetcherRun} run Shared state of the fetcher run
+   * @param {DrainResult | Error} result Successful/Failed result of the fetch process
+   */
+  private recordCircuit(
+    subqueue: SubqueueKeyType | undefined,
+    run: FetcherRun,
+    result: DrainResult | Error
+  ): void {
+    // Circuits of the entire valve count each fetcher run once, rather than
+    // once per key, so a single batch run can't trip the circuit on its own
+    if (!this.circuitBreaker?.perSubqueue) {
+      if (result instanceof Error) {
+        run.failure = run.failure ?? result;
+      } else {
+        run.succeeded = true;
+      }
+      return this.settleCircuit(run);
+    }
+
+    const circuit = this.getCircuit(subqueue);
+    if (!circuit) {
+      return;
+    } else if (result instanceof Error) {
+      circuit.recordFailure(result);
+    } else {
+      circuit.recordSuccess();
+    }
+
+    // Drop healthy subqueue circuits to keep memory in check
+    if (this.circuitBreaker?.perSubqueue && circuit.healthy) {
+      this.circuits.delete(this.keyOf(subqueue));
+    }
+  }
+
+  /**
+   * Records the outcome of a fetcher run with the circuit of the entire valve once
+   * every queue of the run is freed, failing only when none of them succeeded
+   * @param {FetcherRun} run Shared state of the fetcher run
+   */
+  private settleCircuit(run: FetcherRun): void {
+    const circuit = this.getCircuit(undefined);
+    if (!circuit || this.circuitBreaker?.perSubqueue || run.remaining > 0) {
+      return;
+    } else if (run.succeeded) {
+      circuit.recordSuccess();
+    } else if (run.failure) {
+      circuit.recordFailure(run.failure);
+    }
+  }
+
+  /**
+   * Determines if a retained result is past its fresh window, and a refresh
+   * should be triggered (no active queue or retained error for the subqueue)
+   * @param {SubqueueKeyType | undefined} subqueue Unique identifier of the queue
+   * @param {CacheEntry} entry Retained result
+   * @returns {boolean} True/False indicating if the result should be refreshed
+   */
+  private shouldRefresh(
+    subqueue: SubqueueKeyType | undefined,
+    entry: CacheEntry<DrainResult>
+  ): boolean {
+    return (
+      this.freshFor !== undefined &&
+      Date.now() - entry.storedAt >= this.freshFor &&
+      !this.isActive(subqueue) &&
+      !this.errors?.get(this.keyOf(subqueue))
+    );
+  }
+
+  /**
+   * Adds each waiter to its queue, detaching any that are still waiting once
+   * the per call timeout has passed or the per call signal has been aborted
+   * @param {QueueWaiter[]} waiters List of promise callbacks and the queues to wait on
+   * @param {FetchOptions} [options] Per call options
+   * @returns {Promise<void>} Promise resolved once the call times out, or rejected with the abort reason
+   */
+  private joinQueues(
+    waiters: QueueWaiter<DrainResult, SubqueueKeyType>[],
+    options?: FetchOptions
+  ): Promise<void> {
+    if (options?.span) {
+      this.linkCaller(waiters, options.span);
+    }
+
+    const timeout = options?.timeout;
+    const signal = options?.signal;
+    if (timeout === undefined && !signal) {
+      waiters.forEach(({ queue, store }) => queue.waiters.push(store));
+      this.publishJoins(waiters);
+      return neverInterrupted;
+    }
+
+    return new Promise<void>((resolve, reject) => {
+      // Keep reference to the queue entries still waiting on results
+      const pending = new Map<
+        PromiseStore<DrainResult>,
+        QueueWaiter<DrainResult, SubqueueKeyType>
+      >();
+
+      // Removes every pending entry from its queue
+      const detach = (
+        callback: (waiter: QueueWaiter<DrainResult, SubqueueKeyType>) => void
+      ) => {
+        const entries = [...pending];
+        cleanup();
+
+        entries.forEach(([entry, waiter]) => {
+          const index = waiter.queue.waiters.indexOf(entry);
+          if (index > -1) {
+            waiter.queue.waiters.splice(index, 1);
+          }
+
+          callback(waiter);
+        });
+      };
+
+      const onAbort = () => {
+        detach(({ subqueue, queue }) => this.abandonQueue(subqueue, queue));
+        reject(this.abortError(signal as AbortSignal));
+      };
+
+      const timer =
+        timeout !== undefined
+          ? setTimeout(() => {
+              detach(({ subqueue, store }) =>
+                store.reject(
+                  new TimeoutError(this.displayName, timeout, subqueue)
+                )
+              );
+              resolve();
+            }, timeout)
+          : undefined;
+
+      const cleanup = () => {
+        pending.clear();
+        clearTimeout(timer);
+        signal?.removeEventListener("abort", onAbort);
+      };
+
+      waiters.forEach((waiter) => {
+        const entry: PromiseStore<DrainResult> = {
+          resolve: (value) => {
+            if (pending.delete(entry) && pending.size === 0) {
+              cleanup();
             }
-          });
+            waiter.store.resolve(value);
+          },
+          reject: (error) => {
+            if (pending.delete(entry) && pending.size === 0) {
+              cleanup();
+            }
+            waiter.store.reject(error);
+          },
+        };
+
+        pending.set(entry, waiter);
+        waiter.queue.waiters.push(entry);
+      });
+      this.publishJoins(waiters);
+
+      signal?.addEventListener("abort", onAbort);
+    });
+  }
+
+  /**
+   * Frees a queue once every waiter has aborted, aborting the fetcher
+   * run when none of its queues have any waiters left
+   * @param {SubqueueKeyType | undefined} subqueue Unique identifier of the queue
+   * @param {ActiveQueue} queue Queue the waiters were detached from
+   */
+  private abandonQueue(
+    subqueue: SubqueueKeyType | undefined,
+    queue: ActiveQueue<DrainResult>
+  ): void {
+    if (queue.waiters.length > 0) {
+      return;
+    }
+
+    if (subqueue !== undefined) {
+      if (this.subqueues.get(this.keyOf(subqueue)) !== queue) {
+        return;
+      }
+      this.subqueues.delete(this.keyOf(subqueue));
+    } else {
+      if (this.queue !== queue) {
+        return;
+      }
+      this.queue = undefined;
+    }
+
+    this.getCircuit(subqueue)?.release(queue.run);
+
+    if (--queue.run.remaining === 0) {
+      queue.run.controller.abort();
+      this.settleCircuit(queue.run);
+    }
+    this.checkDrained();
+  }
+
+  /**
+   * Frees a queue while the valve is forcefully closed, rejecting every
+   * waiter and aborting the fetcher run when none of its queues remain
+   * @param {ActiveQueue} queue Queue to free
+   * @param {ValveClosedError} error Exception to reject the waiters with
+   */
+  private closeQueue(
+    queue: ActiveQueue<DrainResult>,
+    error: ValveClosedError
+  ): void {
+    const subqueue = queue.subqueue as SubqueueKeyType | undefined;
+    if (subqueue !== undefined) {
+      this.subqueues.delete(this.keyOf(subqueue));
+    } else {
+      this.queue = undefined;
+    }
+
+    this.getCircuit(subqueue)?.release(queue.run);
+
+    if (--queue.run.remaining === 0) {
+      queue.run.controller.abort(error);
+      this.settleCircuit(queue.run);
+    }
+    queue.waiters.forEach(({ reject }) => reject(error));
+  }
 
-          if (raiseExceptions) {
-            reject(error);
+  /**
+   * Resolves the closing promise once every queue has drained
+   */
+  private checkDrained(): void {
+    if (this.drained && !this.queue && this.subqueues.size === 0) {
+      this.drained();
+    }
+  }
+
+  /**
+   * Normalizes the reason of an aborted signal into an exception
+   * @param {AbortSignal} signal Aborted signal
+   * @returns {Error} Abort reason, wrapped if non exception
+   */
+  private abortError(signal: AbortSignal): Error {
+    return optionallyWrapError(
+      signal.reason,
+      `Fetch aborted for ${this.displayName}`
+    );
+  }
+
+  /**
+   * Starts a fetcher run in the background, flushing anything thrown
+   * outside of the fetcher process itself to the queue
+   * @param {FetcherProcess} fetcher Fetcher process to run
+   * @param {FetcherRun} run Shared state of the fetcher run
+   * @param {SubqueueKeyType} [subqueue] Unique identifier of the subqueue being fetched
+   */
+  private startFetcher(
+    fetcher: FetcherProcess<DrainResult, SubqueueKeyType>,
+    run: FetcherRun,
+    subqueue?: SubqueueKeyType
+  ): void {
+    this.runFetcher(fetcher, run, subqueue).catch((e) =>
+      this.flushResult(
+        subqueue,
+        run,
+        optionallyWrapError(e, `Fetcher error for ${this.displayName}`)
+      )
+    );
+  }
+
+  /**
+   * Runs the user defined fetcher process, flushing the result to the queue
+   * @param {FetcherProcess} fetcher Fetcher process to run
+   * @param {FetcherRun} run Shared state of the fetcher run
+   * @param {SubqueueKeyType} [subqueue] Unique identifier of the subqueue being fetched
+   */
+  private async runFetcher(
+    fetcher: FetcherProcess<DrainResult, SubqueueKeyType>,
+    run: FetcherRun,
+    subqueue?: SubqueueKeyType
+  ): Promise<void> {
+    const timeout = this.timeout;
+    const limiter = this.limiter;
+
+    // Free the queue if the fetcher process takes too long
+    const timer =
+      timeout !== undefined
+        ? setTimeout(() => {
+            this.flushResult(
+              subqueue,
+              run,
+              new TimeoutError(this.displayName, timeout, subqueue)
+            );
+            this.abortTimedOut(run);
+          }, timeout)
+        : undefined;
+
+    // Run the fetcher process until it succeeds or runs out of retries
+    let result: DrainResult | Error;
+    for (let attempt = 1; ; attempt++) {
+      // Wait on a concurrency slot, stopping if the queue is
+      // timed out or abandoned in the meantime
+      if (
+        limiter &&
+        !(await this.acquireSlot(limiter, run, () =>
+          this.isQueueRun(subqueue, run)
+        ))
+      ) {
+        clearTimeout(timer);
+        return;
+      }
+
+      this.notify("fetchStart", {
+        displayName: this.displayName,
+        subqueues: [subqueue],
+        batch: false,
+        attempt,
+      });
+      this.publishFetchStart([subqueue], run, false, attempt);
+
+      const startedAt = Date.now();
+      const span = this.startSpan([subqueue], run, false, attempt);
+      this.collector.fetches++;
+      // Invoke within a promise so synchronous throws reject the attempt
+      result = await new Promise<DrainResult>((resolve) =>
+        resolve(fetcher(subqueue, run.controller.signal))
+      )
+        .catch((e) =>
+          optionallyWrapError(e, `Fetcher error for ${this.displayName}`)
+        )
+        .finally(() => {
+          this.collector.latency.observe(Date.now() - startedAt);
+          limiter?.release();
+        });
+      this.endSpan(span, result instanceof Error ? result : undefined);
+
+      if (
+        !(result instanceof Error) ||
+        !this.canRetry(result, attempt, subqueue, run)
+      ) {
+        break;
+      }
+
+      await this.retryDelay(attempt);
+
+      // Stop retrying once the queue has been timed out or abandoned
+      if (!this.isQueueRun(subqueue, run)) {
+        clearTimeout(timer);
+        return;
+      }
+    }
+
+    // Flush the results
+    clearTimeout(timer);
+    this.flushResult(subqueue, run, result);
+  }
+
+  /**
+   * Runs the user defined batch fetcher process in chunks of at most
+   * maxBatchSize keys, retrying only the keys of each chunk that are
+   * still unresolved after an attempt
+   * @param {SubqueueKeyType[]} subqueues List of unique identifiers to fetch at once
+   * @param {FetcherRun} run Shared state of the fetcher run
+   */
+  private async runBatchFetcher(
+    subqueues: SubqueueKeyType[],
+    run: FetcherRun
+  ): Promise<void> {
+    const batchFetcher = this.batchFetcher;
+    if (!batchFetcher) {
+      throw new Error(
+        `Batch Fetcher Process not defined for ${this.displayName}`
+      );
+    }
+
+    const limiter = this.limiter;
+
+    // Keep reference to completed queues
+    const responses = new Set<unknown>();
+
+    // Flushes subqueue results that have not already been sent
+    const writeResult = (id: SubqueueKeyType, value: DrainResult | Error) => {
+      if (!responses.has(this.keyOf(id))) {
+        responses.add(this.keyOf(id));
+        this.flushResult(id, run, value);
+      }
+    };
+
+    // Time out any subqueues still waiting on results
+    const timeout = this.timeout;
+    let timer: NodeJS.Timeout | undefined;
+    const timedOut = new Promise<void>((resolve) => {
+      if (timeout !== undefined) {
+        timer = setTimeout(() => {
+          subqueues.forEach((id) =>
+            writeResult(id, new TimeoutError(this.displayName, timeout, id))
+          );
+          this.abortTimedOut(run);
+          resolve();
+        }, timeout);
+      }
+    });
+
+    // Run the batch fetcher process until every key of the chunk is resolved or out of retries
+    const attempts = async (chunk: SubqueueKeyType[]) => {
+      // Skip any keys that have been timed out or abandoned while waiting on other chunks
+      let pending = chunk.filter((id) => this.isQueueRun(id, run));
+      for (let attempt = 1; pending.length > 0; attempt++) {
+        // Wait on a concurrency slot, dropping any keys timed out or abandoned in the meantime
+        if (limiter) {
+          if (
+            !(await this.acquireSlot(limiter, run, () =>
+              pending.some((id) => this.isQueueRun(id, run))
+            ))
+          ) {
+            return;
+          }
+          pending = pending.filter((id) => this.isQueueRun(id, run));
+        }
+
+        this.notify("fetchStart", {
+          displayName: this.displayName,
+          subqueues: [...pending],
+          batch: true,
+          attempt,
+        });
+        this.publishFetchStart(pending, run, true, attempt);
+
+        const startedAt = Date.now();
+        const span = this.startSpan(pending, run, true, attempt);
+        this.collector.fetches++;
+        this.collector.batchSizes.observe(pending.length);
+
+        let failures: Map<SubqueueKeyType, Error>;
+        try {
+          failures = await this.runBatchAttempt(
+            batchFetcher,
+            pending,
+            run,
+            responses,
+            writeResult,
+            span
+          );
+        } catch (e) {
+          this.endSpan(span, e as Error);
+          throw e;
+        } finally {
+          this.collector.latency.observe(Date.now() - startedAt);
+          limiter?.release();
+        }
+        this.endSpan(span, failures.values().next().value, failures.size);
+
+        pending = [];
+        failures.forEach((error, id) => {
+          if (this.canRetry(error, attempt, id, run)) {
+            pending.push(id);
           } else {
-            resolve();
+            writeResult(id, error);
           }
         });
+
+        if (pending.length > 0) {
+          await this.retryDelay(attempt);
+
+          // Drop any keys that have been timed out or abandoned during the delay
+          pending = pending.filter((id) => this.isQueueRun(id, run));
+        }
+      }
+    };
+
+    // Split the keys into chunks, running up to the parallel limit at a time
+    const chunkSize = this.maxBatchSize ?? subqueues.length;
+    const chunks: SubqueueKeyType[][] = [];
+    for (let index = 0; index < subqueues.length; index += chunkSize) {
+      chunks.push(subqueues.slice(index, index + chunkSize));
+    }
+
+    if (diagnostics.batchDispatch.hasSubscribers) {
+      const message: BatchDispatchMessage<SubqueueKeyType> = {
+        displayName: this.displayName,
+        keys: [...subqueues],
+        chunks: chunks.length,
+      };
+      diagnostics.batchDispatch.publish(message);
+    }
+
+    // Failing chunks only reject their own keys, leaving the results of every
+    // other chunk intact. The error is only raised when the run isn't split
+    let chunkError: unknown;
+    let nextChunk = 0;
+    const worker = async () => {
+      while (nextChunk < chunks.length) {
+        const chunk = chunks[nextChunk++];
+        await attempts(chunk).catch((e) => {
+          const error = optionallyWrapError(
+            e,
+            `Batch fetcher error for ${this.displayName}`
+          );
+          chunk.forEach((id) => writeResult(id, error));
+          chunkError = chunkError ?? error;
+        });
+      }
+    };
+    const workers = async () => {
+      await Promise.all(
+        Array.from(
+          {
+            length: Math.min(
+              this.maxParallelBatches ?? Infinity,
+              chunks.length
+            ),
+          },
+          worker
+        )
+      );
+
+      if (chunkError !== undefined && chunks.length === 1) {
+        throw chunkError;
+      }
+    };
+
+    // Stop waiting on the batch fetcher once every queue of the run has
+    // been freed, such as when the valve is forcefully closed
+    const signal = run.controller.signal;
+    let stop: () => void = () => undefined;
+    const stopped = new Promise<void>((resolve) => (stop = resolve));
+    signal.addEventListener("abort", stop);
+
+    try {
+      await Promise.race([workers(), timedOut, stopped]);
+    } finally {
+      clearTimeout(timer);
+      signal.removeEventListener("abort", stop);
+    }
+  }
+
+  /**
+   * Runs a single attempt of the user defined batch fetcher process
+   * @param {BatchFetcherProcess} batchFetcher Batch fetcher process to run
+   * @param {SubqueueKeyType[]} subqueues List of unique identifiers to fetch at once
+   * @param {FetcherRun} run Shared state of the fetcher run
+   * @param {Set} responses Keys that have already been resolved
+   * @param {Function} writeResult Flushes results of keys that have not been resolved
+   * @param {Span} [span] Span of the attempt, recording early writes as events
+   * @returns {Map} Errors for each key left unresolved by the attempt
+   */
+  private async runBatchAttempt(
+    batchFetcher: BatchFetcherProcess<DrainResult, SubqueueKeyType>,
+    subqueues: SubqueueKeyType[],
+    run: FetcherRun,
+    responses: Set<unknown>,
+    writeResult: (id: SubqueueKeyType, value: DrainResult | Error) => void,
+    span?: Span
+  ): Promise<Map<SubqueueKeyType, Error>> {
+    return new Promise<Map<SubqueueKeyType, Error>>((resolve, reject) => {
+      // Trigger the batch fetching process
+      let finished = false;
+      batchFetcher(
+        subqueues,
+        (key, value) => {
+          // Ignore any writes once the actual fetch process has completed
+          if (finished) {
+            throw new Error(
+              `Batch fetcher process has already completed for ${this.displayName}`
+            );
+          }
+          // Do not override previous results as they have already been flushed
+          else {
+            span?.addEvent("earlyWrite", {
+              "burst_valve.key": String(key),
+              "burst_valve.error": value instanceof Error,
+            });
+            this.notify("earlyWrite", {
+              displayName: this.displayName,
+              subqueue: key,
+              result: value,
+            });
+            writeResult(key, value);
+          }
+        },
+        run.controller.signal
+      )
+        .then((batchResult) => {
+          finished = true;
+
+          if (batchResult) {
+            // Batch process returns array of results matching the index list it was sent
+            if (Array.isArray(batchResult)) {
+              // Enforce array results length must match number of keys passed
+              if (batchResult.length !== subqueues.length) {
+                const error = new Error(
+                  `Batch fetcher result array length does not match key length for ${this.displayName}`
+                );
+                subqueues.forEach((id) => writeResult(id, error));
+                return reject(error);
+              }
+
+              // Assign results
+              subqueues.forEach((id, index) =>
+                writeResult(id, batchResult[index])
+              );
+            }
+            // Batch process returns map of results
+            else if (batchResult instanceof Map) {
+              batchResult.forEach((value, id) => writeResult(id, value));
+            }
+          }
+
+          // Mark error for each unresolved subqueue key
+          const failures = new Map<SubqueueKeyType, Error>();
+          subqueues.forEach((id) => {
+            if (!responses.has(this.keyOf(id))) {
+              failures.set(
+                id,
+                new Error(
+                  `Batch fetcher result not found for '${String(
+                    id
+                  )}' subqueue in ${this.displayName}`
+                )
+              );
+            }
+          });
+
+          resolve(failures);
+        })
+        .catch((e) => {
+          finished = true;
+
+          const error = optionallyWrapError(
+            e,
+            `Batch fetcher error for ${this.displayName}`
+          );
+
+          resolve(
+            new Map(
+              subqueues
+                .filter((id) => !responses.has(this.keyOf(id)))
+                .map((id) => [id, error])
+            )
+          );
+        });
     });
   }
 
+  /**
+   * Aborts a fetcher run once the valve timeout has freed every one of its
+   * queues, so a run still waiting on a concurrency slot leaves the pending queue
+   * @param {FetcherRun} run Shared state of the fetcher run
+   */
+  private abortTimedOut(run: FetcherRun): void {
+    if (run.remaining === 0) {
+      run.controller.abort();
+    }
+  }
+
+  /**
+   * Waits on a free concurrency slot, handing it straight back when
+   * the run is no longer needed once the slot is taken
+   * @param {ConcurrencyLimiter} limiter Concurrency limiter to take the slot from
+   * @param {FetcherRun} run Shared state of the fetcher run
+   * @param {Function} isPending Determines if the run still has queues waiting on it
+   * @returns {Promise<boolean>} True/False indicating if the slot is held by the run
+   */
+  private async acquireSlot(
+    limiter: ConcurrencyLimiter,
+    run: FetcherRun,
+    isPending: () => boolean
+  ): Promise<boolean> {
+    if (!(await limiter.acquire(run.controller.signal))) {
+      return false;
+    } else if (!isPending()) {
+      limiter.release();
+      return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * Determines if a failed attempt should be retried, only retrying
+   * queues that are still waiting on the fetcher run
+   * @param {Error} error Error raised by the attempt
+   * @param {number} attempt Number of the attempt that failed, starting at 1
+   * @param {SubqueueKeyType | undefined} subqueue Unique identifier of the queue
+   * @param {FetcherRun} run Shared state of the fetcher run
+   * @returns {boolean} True/False indicating if the attempt should be retried
+   */
+  private canRetry(
+    error: Error,
+    attempt: number,
+    subqueue: SubqueueKeyType | undefined,
+    run: FetcherRun
+  ): boolean {
+    if (
+      !this.retry ||
+      attempt >= (this.retry.attempts ?? 3) ||
+      run.controller.signal.aborted
+    ) {
+      return false;
+    }
+
+    if (!this.isQueueRun(subqueue, run)) {
+      return false;
+    }
+
+    // Predicates that throw stop retrying, flushing the attempt's error
+    try {
+      return this.retry.shouldRetry
+        ? this.retry.shouldRetry(error, attempt, subqueue)
+        : true;
+    } catch (e) {
+      return false;
+    }
+  }
+
+  /**
+   * Determines if the queue (or subqueue) is still waiting on the fetcher run
+   * @param {SubqueueKeyType | undefined} subqueue Unique identifier of the queue
+   * @param {FetcherRun} run Shared state of the fetcher run
+   * @returns {boolean} True/False indicating if the queue belongs to the run
+   */
+  private isQueueRun(
+    subqueue: SubqueueKeyType | undefined,
+    run: FetcherRun
+  ): boolean {
+    const queue = this.getQueue(subqueue);
+
+    return queue?.run === run;
+  }
+
+  /**
+   * Waits out the exponential backoff delay before the next attempt
+   * @param {number} attempt Number of the attempt that failed, starting at 1
+   */
+  private async retryDelay(attempt: number): Promise<void> {
+    const { delay = 100, maxDelay = 5000, jitter = true } = this.retry || {};
+    const backoff = Math.min(delay * 2 ** (attempt - 1), maxDelay);
+
+    await new Promise((resolve) =>
+      setTimeout(resolve, jitter ? Math.random() * backoff : backoff)
+    );
+  }
+
+  /**
+   * Opens a span around a fetcher (or batch fetcher) invocation, linking it with the
+   * spans of every caller waiting on the queues (or subqueues) being fetched
+   * @param {Array} subqueues Unique identifiers being fetched (undefined for the global queue)
+   * @param {FetcherRun} run Shared state of the fetcher run
+   * @param {boolean} batch Indicates if the batch fetcher is being invoked
+   * @param {number} attempt Number of the attempt, starting at 1
+   * @returns {Span | undefined} Span of the invocation when a tracer is configured
+   */
+  private startSpan(
+    subqueues: Array<SubqueueKeyType | undefined>,
+    run: FetcherRun,
+    batch: boolean,
+    attempt: number
+  ): Span | undefined {
+    const tracer = this.tracer;
+    if (!tracer) {
+      return undefined;
+    }
+
+    const queues: ActiveQueue<DrainResult>[] = [];
+    const callers = new Set<Span>();
+    subqueues.forEach((subqueue) => {
+      const queue = this.getQueue(subqueue);
+      if (queue?.run === run) {
+        queues.push(queue);
+        queue.callers?.forEach((caller) => callers.add(caller));
+      }
+    });
+
+    // Carry on without a span when the tracer fails
+    const span = this.traced(() =>
+      tracer.startSpan(batch ? "BurstValve.batch" : "BurstValve.fetch", {
+        attributes: {
+          "burst_valve.display_name": this.displayName,
+          "burst_valve.keys": subqueues
+            .filter((subqueue) => subqueue !== undefined)
+            .map(String),
+          "burst_valve.attempt": attempt,
+        },
+        links: [...callers].map((caller) => ({
+          context: caller.spanContext(),
+        })),
+      })
+    );
+    if (!span) {
+      return undefined;
+    }
+
+    queues.forEach((queue) => (queue.span = span));
+    callers.forEach((caller) => this.traced(() => this.linkSpan(caller, span)));
+
+    return span;
+  }
+
+  /**
+   * Ends the span of a fetcher invocation, recording any error raised
+   * @param {Span | undefined} span Span of the invocation
+   * @param {Error} [error] Error raised by the invocation
+   * @param {number} [failures] Number of keys left unresolved by a batch invocation
+   */
+  private endSpan(
+    span: Span | undefined,
+    error?: Error,
+    failures?: number
+  ): void {
+    if (!span) {
+      return;
+    }
+
+    this.traced(() => {
+      if (failures !== undefined) {
+        span.setAttribute("burst_valve.failures", failures);
+      }
+
+      if (error) {
+        span.recordException(error);
+        span.setStatus({ code: SpanStatusCode.ERROR, message: error.message });
+      } else {
+        span.setStatus({ code: SpanStatusCode.OK });
+      }
+      span.end();
+    });
+  }
+
+  /**
+   * Registers the caller's span with each queue it waits on, linking it to the
+   * span of any fetcher invocation already running for those queues
+   * @param {QueueWaiter[]} waiters List of promise callbacks and the queues to wait on
+   * @param {Span} caller Span of the caller
+   */
+  private linkCaller(
+    waiters: QueueWaiter<DrainResult, SubqueueKeyType>[],
+    caller: Span
+  ): void {
+    if (!this.tracer) {
+      return;
+    }
+
+    const linked = new Set<Span>();
+    waiters.forEach(({ queue }) => {
+      queue.callers = queue.callers || [];
+      queue.callers.push(caller);
+
+      const span = queue.span;
+      if (span && !linked.has(span)) {
+        linked.add(span);
+        this.traced(() => this.linkSpan(caller, span));
+      }
+    });
+  }
+
+  /**
+   * Runs a call into the tracer (or its spans), re-raising any exception
+   * outside of the fetcher run so a broken tracer never breaks fetching
+   * @param {Function} call Tracer call to run
+   * @returns {any} Result of the call, undefined when it throws
+   */
+  private traced<T>(call: () => T): T | undefined {
+    try {
+      return call();
+    } catch (e) {
+      process.nextTick(() => {
+        throw e;
+      });
+      return undefined;
+    }
+  }
+
+  /**
+   * Links the caller's span to the span of the fetcher invocation it is sharing,
+   * falling back to a span event for spans without link support
+   * @param {Span} caller Span of the caller
+   * @param {Span} span Span of the fetcher invocation
+   */
+  private linkSpan(caller: Span, span: Span): void {
+    const context = span.spanContext();
+    if (caller.addLink) {
+      caller.addLink({
+        context,
+        attributes: { "burst_valve.display_name": this.displayName },
+      });
+    } else {
+      caller.addEvent("burst_valve.link", {
+        "burst_valve.trace_id": context.traceId,
+        "burst_valve.span_id": context.spanId,
+      });
+    }
+  }
+
+  /**
+   * Publishes each caller joining a queue (or subqueue) to the diagnostics channel
+   * @param {QueueWaiter[]} waiters List of promise callbacks and the queues joined
+   */
+  private publishJoins(
+    waiters: QueueWaiter<DrainResult, SubqueueKeyType>[]
+  ): void {
+    if (!diagnostics.queueJoin.hasSubscribers) {
+      return;
+    }
+
+    waiters.forEach(({ subqueue, queue }) => {
+      const message: QueueJoinMessage<SubqueueKeyType> = {
+        displayName: this.displayName,
+        key: subqueue,
+        waiters: queue.waiters.length,
+      };
+      diagnostics.queueJoin.publish(message);
+    });
+  }
+
+  /**
+   * Publishes a fetcher (or batch fetcher) invocation to the diagnostics channel
+   * @param {Array} subqueues Unique identifiers being fetched (undefined for the global queue)
+   * @param {FetcherRun} run Shared state of the fetcher run
+   * @param {boolean} batch Indicates if the batch fetcher is being invoked
+   * @param {number} attempt Number of the attempt, starting at 1
+   */
+  private publishFetchStart(
+    subqueues: Array<SubqueueKeyType | undefined>,
+    run: FetcherRun,
+    batch: boolean,
+    attempt: number
+  ): void {
+    if (!diagnostics.fetchStart.hasSubscribers) {
+      return;
+    }
+
+    const message: FetchStartMessage<SubqueueKeyType> = {
+      displayName: this.displayName,
+      keys: [...subqueues],
+      batch,
+      attempt,
+      waiters: subqueues.reduce((sum, subqueue) => {
+        const queue = this.getQueue(subqueue);
+        return queue?.run === run ? sum + queue.waiters.length : sum;
+      }, 0),
+    };
+    diagnostics.fetchStart.publish(message);
+  }
+
+  /**
+   * Publishes the flushing of a queue (or subqueue) to the diagnostics channel
+   * @param {SubqueueKeyType | undefined} subqueue Unique identifier of the queue
+   * @param {ActiveQueue} queue Queue being flushed
+   * @param {object} outcome Result or error sent to the waiters
+   */
+  private publishFetchEnd(
+    subqueue: SubqueueKeyType | undefined,
+    queue: ActiveQueue<DrainResult>,
+    outcome: { result?: DrainResult; error?: Error }
+  ): void {
+    if (!diagnostics.fetchEnd.hasSubscribers) {
+      return;
+    }
+
+    const message: FetchEndMessage<DrainResult, SubqueueKeyType> = {
+      displayName: this.displayName,
+      key: subqueue,
+      waiters: queue.waiters.length,
+      duration: Date.now() - queue.startedAt,
+      ...outcome,
+    };
+    diagnostics.fetchEnd.publish(message);
+  }
+
+  /**
+   * Emits a lifecycle event without letting listener exceptions
+   * interrupt the queue, re-raising them on the next tick instead
+   * @param {string} event Name of the lifecycle event
+   * @param {object} payload Event payload
+   */
+  private notify<
+    Event extends keyof BurstValveEvents<DrainResult, SubqueueKeyType>
+  >(
+    event: Event,
+    payload: BurstValveEvents<DrainResult, SubqueueKeyType>[Event]
+  ): void {
+    if (this.listenerCount(event) === 0) {
+      return;
+    }
+
+    try {
+      this.emit(event, payload);
+    } catch (e) {
+      process.nextTick(() => {
+        throw e;
+      });
+    }
+  }
+
   /**
    * Flushes the queue specified with the result passed
    * @param {SubqueueKeyType | undefined} subqueue Unique identifier tied to the fetch process
+   * @param {FetcherRun} run Fetcher run the result belongs to
    * @param {DrainResult | Error} result Successful/Failed result of the fetch process
    */
   private flushResult(
     subqueue: SubqueueKeyType | undefined,
+    run: FetcherRun,
     result: DrainResult | Error
   ): void {
-    // Find the relevant queue
-    let list: PromiseStore<DrainResult>[] = [];
+    // Find the relevant queue, ignoring any that have since been
+    // timed out, abandoned, or replaced by another fetcher run
+    let queue: ActiveQueue<DrainResult> | undefined;
     if (subqueue !== undefined) {
-      const sublist = this.subqueues.get(subqueue);
-      if (sublist) {
-        list = sublist;
-        this.subqueues.delete(subqueue);
+      queue = this.subqueues.get(this.keyOf(subqueue));
+      if (queue?.run !== run) {
+        return;
+      }
+      this.subqueues.delete(this.keyOf(subqueue));
+    } else {
+      queue = this.queue;
+      if (queue?.run !== run) {
+        return;
       }
-    } else if (this.queue) {
-      list = this.queue;
       this.queue = undefined;
     }
+    run.remaining--;
+
+    this.recordCircuit(subqueue, run, result);
 
     // Send result/error
     if (result instanceof Error) {
-      list.forEach(({ reject }) => reject(result));
+      if (
+        this.errors &&
+        this.errorTtl &&
+        (!this.shouldCacheError || this.shouldCacheError(result, subqueue))
+      ) {
+        this.errors.set(this.keyOf(subqueue), result, this.errorTtl);
+      }
+
+      this.collector.errors++;
+      queue.waiters.forEach(({ reject }) => reject(result));
+      this.notify("fetchError", {
+        displayName: this.displayName,
+        subqueue,
+        error: result,
+        waiters: queue.waiters.length,
+        duration: Date.now() - queue.startedAt,
+      });
+      this.publishFetchEnd(subqueue, queue, { error: result });
     } else {
-      list.forEach(({ resolve }) => resolve(result));
+      if (this.results && this.resultTtl) {
+        this.results.set(this.keyOf(subqueue), result, this.resultTtl);
+      }
+
+      queue.waiters.forEach(({ resolve }) => resolve(result));
+      this.notify("flush", {
+        displayName: this.displayName,
+        subqueue,
+        result,
+        waiters: queue.waiters.length,
+        duration: Date.now() - queue.startedAt,
+      });
+      this.publishFetchEnd(subqueue, queue, { result });
     }
+    this.checkDrained();
   }
 }
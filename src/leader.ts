@@ -0,0 +1,158 @@
+import type { BatchFetcherProcess, FetcherProcess } from "./index";
+
+/**
+ * Error reduced to what can be sent to other processes
+ */
+export interface SerializedError {
+  name: string;
+  message: string;
+  stack?: string;
+}
+
+/**
+ * Reduces an error to what can be sent to other processes
+ * @param {Error} error Error to serialize
+ * @returns {SerializedError} Name, message and stack of the error
+ */
+export const serializeError = (error: Error): SerializedError => ({
+  name: error.name,
+  message: error.message,
+  stack: error.stack,
+});
+
+/**
+ * Rebuilds an error received from another process
+ * @param {SerializedError} error Serialized error
+ * @returns {Error} Error with the original name, message and stack
+ */
+export const deserializeError = (error: SerializedError): Error =>
+  Object.assign(new Error(error.message), {
+    name: error.name,
+    stack: error.stack,
+  });
+
+/**
+ * Checks if a coalescing key survives serialization unchanged, so it never
+ * collides with another key once sent to other processes. Only strings, finite
+ * numbers, booleans, null, and arrays or plain objects of them qualify (along
+ * with undefined for the global queue)
+ * @param {unknown} key Coalescing key
+ * @returns {boolean} True/False indicating if the key can be shared with other processes
+ */
+export const isPortableKey = (key: unknown): boolean => {
+  const portable = (value: unknown): boolean => {
+    if (
+      value === null ||
+      typeof value === "string" ||
+      typeof value === "boolean"
+    ) {
+      return true;
+    } else if (typeof value === "number") {
+      return Number.isFinite(value);
+    } else if (Array.isArray(value)) {
+      return value.every(portable);
+    } else if (typeof value === "object") {
+      const prototype = Object.getPrototypeOf(value);
+      return (
+        (prototype === Object.prototype || prototype === null) &&
+        Object.getOwnPropertySymbols(value).length === 0 &&
+        Object.values(value as object).every(portable)
+      );
+    }
+    return false;
+  };
+
+  return key === undefined || portable(key);
+};
+
+/**
+ * Elects a single process (worker, thread or host) to run each fetch, wrapping
+ * the fetcher processes of a valve
+ */
+export interface FetchCoordinator {
+  wrapFetcher<FetchResult, SubqueueKeyType>(
+    namespace: string,
+    fetcher: FetcherProcess<FetchResult, SubqueueKeyType>,
+    keyOf: (subqueue: SubqueueKeyType | undefined) => unknown
+  ): FetcherProcess<FetchResult, SubqueueKeyType>;
+  wrapBatchFetcher<FetchResult, SubqueueKeyType>(
+    namespace: string,
+    batchFetcher: BatchFetcherProcess<FetchResult, SubqueueKeyType>,
+    keyOf: (subqueue: SubqueueKeyType) => unknown
+  ): BatchFetcherProcess<FetchResult, SubqueueKeyType>;
+}
+
+/**
+ * Callbacks settling keys led by the current process for everyone else waiting on them
+ */
+export interface LeadCallbacks<FetchResult, SubqueueKeyType> {
+  /**
+   * Hands the result (or error) of a key to the processes waiting on it
+   */
+  release(subqueue: SubqueueKeyType, value: FetchResult | Error): void;
+
+  /**
+   * Gives up a key without a result, once every local waiter has aborted
+   */
+  abandon(subqueue: SubqueueKeyType): void;
+}
+
+/**
+ * Runs the batch fetcher for keys led by the current process, releasing
+ * each result to the other processes as soon as it is written
+ * @param {string} namespace Name of the valve, for error messages
+ * @param {BatchFetcherProcess} batchFetcher Batch fetcher process to run
+ * @param {SubqueueKeyType[]} subqueues Keys led by the current process
+ * @param {Function} earlyWrite Early write mechanism of the local batch fetcher run
+ * @param {AbortSignal} signal Aborted once every local waiter has aborted
+ * @param {Function} keyOf Maps subqueue keys to their coalescing key
+ * @param {LeadCallbacks} callbacks Settles each key for the other processes
+ */
+export const leadBatch = async <FetchResult, SubqueueKeyType>(
+  namespace: string,
+  batchFetcher: BatchFetcherProcess<FetchResult, SubqueueKeyType>,
+  subqueues: SubqueueKeyType[],
+  earlyWrite: (subqueue: SubqueueKeyType, result: FetchResult | Error) => void,
+  signal: AbortSignal,
+  keyOf: (subqueue: SubqueueKeyType) => unknown,
+  callbacks: LeadCallbacks<FetchResult, SubqueueKeyType>
+): Promise<void> => {
+  const pending = new Map(subqueues.map((id) => [keyOf(id), id]));
+  const write = (id: SubqueueKeyType, value: FetchResult | Error) => {
+    if (pending.has(keyOf(id))) {
+      pending.delete(keyOf(id));
+      callbacks.release(id, value);
+    }
+    earlyWrite(id, value);
+  };
+
+  try {
+    const results = await batchFetcher(subqueues, write, signal);
+    if (Array.isArray(results)) {
+      if (results.length !== subqueues.length) {
+        throw new Error(
+          `Batch fetcher result array length does not match key length for ${namespace}`
+        );
+      }
+      subqueues.forEach((id, index) => write(id, results[index]));
+    } else if (results instanceof Map) {
+      results.forEach((value, id) => write(id, value));
+    }
+  } catch (e) {
+    pending.forEach((id) =>
+      signal.aborted ? callbacks.abandon(id) : callbacks.release(id, e as Error)
+    );
+    throw e;
+  }
+
+  pending.forEach((id) =>
+    callbacks.release(
+      id,
+      new Error(
+        `Batch fetcher result not found for '${String(
+          id
+        )}' subqueue in ${namespace}`
+      )
+    )
+  );
+};
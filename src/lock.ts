@@ -0,0 +1,491 @@
+import type { BatchFetcherProcess, FetcherProcess } from "./index";
+import {
+  deserializeError,
+  FetchCoordinator,
+  isPortableKey,
+  leadBatch,
+  SerializedError,
+  serializeError,
+} from "./leader";
+
+/**
+ * Result (or error) published by the process holding the lock of a key
+ */
+export interface LockMessage {
+  result?: unknown;
+  error?: SerializedError;
+}
+
+/**
+ * Storage for fleet wide locks and results (redis, memcached, etcd, etc.)
+ */
+export interface DistributedLockAdapter {
+  /**
+   * Attempts to take the lock of a key, expiring on its own after the ttl
+   * @param {string} key Lock key
+   * @param {number} ttl Number of milliseconds the lock is held for at most
+   * @returns {Promise<boolean>} True/False indicating if the lock was taken
+   */
+  acquire(key: string, ttl: number): Promise<boolean>;
+
+  /**
+   * Releases the lock of a key without publishing a result
+   * @param {string} key Lock key
+   */
+  release(key: string): Promise<void>;
+
+  /**
+   * Releases the lock of a key, then sends the message to every subscriber of the key
+   * @param {string} key Lock key
+   * @param {LockMessage} message Result (or error) of the fetch
+   */
+  publish(key: string, message: LockMessage): Promise<void>;
+
+  /**
+   * Listens for messages published to a key
+   * @param {string} key Lock key
+   * @param {Function} listener Callback receiving each message
+   * @returns {Promise<Function>} Removes the listener
+   */
+  subscribe(
+    key: string,
+    listener: (message: LockMessage) => void
+  ): Promise<() => Promise<void>>;
+}
+
+/**
+ * Configurable parameters for fleet wide coalescing
+ */
+export interface DistributedLockParams {
+  /**
+   * Storage for the locks and results
+   */
+  adapter: DistributedLockAdapter;
+
+  /**
+   * Number of milliseconds a lock is held for at most (defaults to 10000)
+   */
+  ttl?: number;
+
+  /**
+   * Number of milliseconds to wait on the result of another process
+   * before fetching locally (defaults to the ttl)
+   */
+  waitTimeout?: number;
+
+  /**
+   * Prefix of every lock key (defaults to burst-valve)
+   */
+  prefix?: string;
+}
+
+/**
+ * Lock of a single key, along with the subscription to its result
+ */
+interface LockClaim {
+  key: string;
+
+  /**
+   * Leaders hold the lock, followers wait on the leader's result,
+   * and local claims fetch on their own when the adapter fails
+   */
+  role: "leader" | "follower" | "local";
+  published: Promise<LockMessage>;
+  unsubscribe: () => Promise<void>;
+}
+
+/**
+ * Consults a distributed lock before running fetcher processes, so that only
+ * the process holding the lock of a key fetches it and every other process
+ * waits on the published result
+ */
+export class DistributedLock implements FetchCoordinator {
+  /**
+   * Storage for the locks and results
+   * @type {DistributedLockAdapter}
+   * @readonly
+   * @private
+   */
+  private readonly adapter: DistributedLockAdapter;
+
+  /**
+   * Number of milliseconds a lock is held for at most
+   * @type {number}
+   * @readonly
+   * @private
+   */
+  private readonly ttl: number;
+
+  /**
+   * Number of milliseconds to wait on the result of another process
+   * @type {number}
+   * @readonly
+   * @private
+   */
+  private readonly waitTimeout: number;
+
+  /**
+   * Prefix of every lock key
+   * @type {string}
+   * @readonly
+   * @private
+   */
+  private readonly prefix: string;
+
+  /**
+   * Creates a distributed lock on top of the adapter
+   * @param {DistributedLockParams} params Adapter, lock ttl and wait timeout
+   */
+  constructor(params: DistributedLockParams) {
+    this.adapter = params.adapter;
+    this.ttl = params.ttl ?? 10000;
+    this.waitTimeout = params.waitTimeout ?? this.ttl;
+    this.prefix = params.prefix ?? "burst-valve";
+  }
+
+  /**
+   * Wraps a fetcher process so only the process holding the lock of each
+   * key runs it, with every other process receiving the published result
+   * @param {string} namespace Name shared by the same valve in every process
+   * @param {FetcherProcess} fetcher Fetcher process to coalesce
+   * @param {Function} keyOf Maps subqueue keys to their coalescing key
+   * @returns {FetcherProcess} Coalesced fetcher process
+   */
+  public wrapFetcher<FetchResult, SubqueueKeyType>(
+    namespace: string,
+    fetcher: FetcherProcess<FetchResult, SubqueueKeyType>,
+    keyOf: (subqueue: SubqueueKeyType | undefined) => unknown
+  ): FetcherProcess<FetchResult, SubqueueKeyType> {
+    return async (subqueue, signal) => {
+      const claim = await this.claim(namespace, keyOf(subqueue));
+      try {
+        if (claim.role === "leader") {
+          return await this.lead(claim.key, signal, () =>
+            fetcher(subqueue, signal)
+          );
+        }
+
+        const message =
+          claim.role === "follower"
+            ? await this.follow(claim.published, signal)
+            : undefined;
+        if (!message) {
+          return await fetcher(subqueue, signal);
+        } else if (message.error) {
+          throw deserializeError(message.error);
+        } else {
+          return message.result as FetchResult;
+        }
+      } finally {
+        claim.unsubscribe().catch(() => undefined);
+      }
+    };
+  }
+
+  /**
+   * Wraps a batch fetcher process so it only runs for keys whose lock is held,
+   * early writing the results published by other processes as they arrive
+   * @param {string} namespace Name shared by the same valve in every process
+   * @param {BatchFetcherProcess} batchFetcher Batch fetcher process to coalesce
+   * @param {Function} keyOf Maps subqueue keys to their coalescing key
+   * @returns {BatchFetcherProcess} Coalesced batch fetcher process
+   */
+  public wrapBatchFetcher<FetchResult, SubqueueKeyType>(
+    namespace: string,
+    batchFetcher: BatchFetcherProcess<FetchResult, SubqueueKeyType>,
+    keyOf: (subqueue: SubqueueKeyType) => unknown
+  ): BatchFetcherProcess<FetchResult, SubqueueKeyType> {
+    return async (subqueues, earlyWrite, signal) => {
+      const claims = await Promise.all(
+        subqueues.map((id) => this.claim(namespace, keyOf(id)))
+      );
+      const lockKeys = new Map(
+        subqueues.map((id, index) => [keyOf(id), claims[index].key])
+      );
+      const lockKeyOf = (id: SubqueueKeyType) =>
+        lockKeys.get(keyOf(id)) as string;
+
+      try {
+        // Fetch keys that are locked, publishing each result as it is written
+        const leads = subqueues.filter(
+          (_id, index) => claims[index].role === "leader"
+        );
+        const leading =
+          leads.length > 0
+            ? leadBatch(
+                namespace,
+                batchFetcher,
+                leads,
+                earlyWrite,
+                signal,
+                keyOf,
+                {
+                  release: (id, value) => this.publish(lockKeyOf(id), value),
+                  abandon: (id) => this.release(lockKeyOf(id)),
+                }
+              )
+            : undefined;
+
+        // Wait on results published by other processes, then
+        // fetch any keys that timed out on their own
+        const locals = subqueues.filter(
+          (_id, index) => claims[index].role === "local"
+        );
+        const following = Promise.all(
+          subqueues.map(async (id, index) => {
+            if (claims[index].role !== "follower") {
+              return;
+            }
+
+            const message = await this.follow(claims[index].published, signal);
+            if (!message) {
+              locals.push(id);
+            } else {
+              earlyWrite(
+                id,
+                message.error
+                  ? deserializeError(message.error)
+                  : (message.result as FetchResult)
+              );
+            }
+          })
+        ).then(() =>
+          locals.length > 0
+            ? leadBatch(
+                namespace,
+                batchFetcher,
+                locals,
+                earlyWrite,
+                signal,
+                keyOf,
+                { release: () => undefined, abandon: () => undefined }
+              )
+            : undefined
+        );
+
+        const outcomes = await Promise.allSettled([leading, following]);
+        const failure = outcomes.find(
+          (outcome): outcome is PromiseRejectedResult =>
+            outcome.status === "rejected"
+        );
+        if (failure) {
+          throw failure.reason;
+        }
+      } finally {
+        claims.forEach((claim) => claim.unsubscribe().catch(() => undefined));
+      }
+    };
+  }
+
+  /**
+   * Builds the lock key of a subqueue
+   * @param {string} namespace Name shared by the same valve in every process
+   * @param {unknown} key Coalescing key of the subqueue (undefined for the global queue)
+   * @returns {string} Lock key
+   */
+  private lockKey(namespace: string, key: unknown): string {
+    return key === undefined
+      ? `${this.prefix}:${namespace}`
+      : `${this.prefix}:${namespace}:${JSON.stringify(key)}`;
+  }
+
+  /**
+   * Subscribes to the result of a key before attempting to take its lock,
+   * so results published in between are never missed
+   * @param {string} namespace Name shared by the same valve in every process
+   * @param {unknown} coalescingKey Coalescing key of the subqueue (undefined for the global queue)
+   * @returns {LockClaim} Role of the current process for the key
+   */
+  private async claim(
+    namespace: string,
+    coalescingKey: unknown
+  ): Promise<LockClaim> {
+    const key = this.lockKey(namespace, coalescingKey);
+    let listener: (message: LockMessage) => void = () => undefined;
+    const published = new Promise<LockMessage>(
+      (resolve) => (listener = resolve)
+    );
+
+    // Fetch locally whenever the key can't be shared or the adapter is unavailable
+    let unsubscribe: () => Promise<void> = async () => undefined;
+    if (!isPortableKey(coalescingKey)) {
+      return { key, role: "local", published, unsubscribe };
+    }
+    try {
+      unsubscribe = await this.adapter.subscribe(key, listener);
+      const acquired = await this.adapter.acquire(key, this.ttl);
+      return {
+        key,
+        role: acquired ? "leader" : "follower",
+        published,
+        unsubscribe,
+      };
+    } catch (e) {
+      return { key, role: "local", published, unsubscribe };
+    }
+  }
+
+  /**
+   * Runs the fetcher while holding the lock, publishing the result (or error)
+   * @param {string} key Lock key
+   * @param {AbortSignal} signal Aborted once every local waiter has aborted
+   * @param {Function} run Runs the fetcher process
+   * @returns {FetchResult} Result of the fetcher process
+   */
+  private async lead<FetchResult>(
+    key: string,
+    signal: AbortSignal,
+    run: () => Promise<FetchResult>
+  ): Promise<FetchResult> {
+    try {
+      const result = await run();
+      this.publish(key, result);
+      return result;
+    } catch (e) {
+      if (signal.aborted) {
+        this.release(key);
+      } else {
+        this.publish(key, e as Error);
+      }
+      throw e;
+    }
+  }
+
+  /**
+   * Waits on the result published by the process holding the lock
+   * @param {Promise} published Resolves with the published message
+   * @param {AbortSignal} signal Aborted once every local waiter has aborted
+   * @returns {LockMessage | undefined} Published message, undefined once the wait times out
+   */
+  private follow(
+    published: Promise<LockMessage>,
+    signal: AbortSignal
+  ): Promise<LockMessage | undefined> {
+    return new Promise<LockMessage | undefined>((resolve, reject) => {
+      if (signal.aborted) {
+        return reject(signal.reason);
+      }
+
+      const onAbort = () => {
+        clearTimeout(timer);
+        reject(signal.reason);
+      };
+      const done = (message?: LockMessage) => {
+        clearTimeout(timer);
+        signal.removeEventListener("abort", onAbort);
+        resolve(message);
+      };
+      const timer = setTimeout(done, this.waitTimeout);
+
+      signal.addEventListener("abort", onAbort, { once: true });
+      published.then(done);
+    });
+  }
+
+  /**
+   * Publishes the result (or error) of a key, ignoring adapter failures
+   * @param {string} key Lock key
+   * @param {any} value Result or error of the fetch
+   */
+  private publish(key: string, value: unknown): void {
+    this.adapter
+      .publish(
+        key,
+        value instanceof Error
+          ? { error: serializeError(value) }
+          : { result: value }
+      )
+      .catch(() => undefined);
+  }
+
+  /**
+   * Releases the lock of a key, ignoring adapter failures
+   * @param {string} key Lock key
+   */
+  private release(key: string): void {
+    this.adapter.release(key).catch(() => undefined);
+  }
+}
+
+/**
+ * Distributed lock adapter keeping every lock and subscriber in memory (useful
+ * for tests, and as a reference for writing adapters)
+ */
+export class InMemoryLockAdapter implements DistributedLockAdapter {
+  /**
+   * Expiry timers of every held lock
+   * @type {Map}
+   * @readonly
+   * @private
+   */
+  private readonly locks = new Map<string, NodeJS.Timeout>();
+
+  /**
+   * Listeners subscribed to each key
+   * @type {Map}
+   * @readonly
+   * @private
+   */
+  private readonly subscribers = new Map<
+    string,
+    Set<(message: LockMessage) => void>
+  >();
+
+  /**
+   * Attempts to take the lock of a key
+   * @param {string} key Lock key
+   * @param {number} ttl Number of milliseconds the lock is held for at most
+   * @returns {Promise<boolean>} True/False indicating if the lock was taken
+   */
+  public async acquire(key: string, ttl: number): Promise<boolean> {
+    if (this.locks.has(key)) {
+      return false;
+    }
+
+    const timer = setTimeout(() => this.locks.delete(key), ttl);
+    timer.unref();
+    this.locks.set(key, timer);
+    return true;
+  }
+
+  /**
+   * Releases the lock of a key
+   * @param {string} key Lock key
+   */
+  public async release(key: string): Promise<void> {
+    clearTimeout(this.locks.get(key));
+    this.locks.delete(key);
+  }
+
+  /**
+   * Releases the lock of a key, then sends the message to every subscriber
+   * @param {string} key Lock key
+   * @param {LockMessage} message Result (or error) of the fetch
+   */
+  public async publish(key: string, message: LockMessage): Promise<void> {
+    await this.release(key);
+    this.subscribers.get(key)?.forEach((listener) => listener(message));
+  }
+
+  /**
+   * Listens for messages published to a key
+   * @param {string} key Lock key
+   * @param {Function} listener Callback receiving each message
+   * @returns {Promise<Function>} Removes the listener
+   */
+  public async subscribe(
+    key: string,
+    listener: (message: LockMessage) => void
+  ): Promise<() => Promise<void>> {
+    const listeners = this.subscribers.get(key) ?? new Set();
+    listeners.add(listener);
+    this.subscribers.set(key, listeners);
+
+    return async () => {
+      listeners.delete(listener);
+      if (listeners.size === 0 && this.subscribers.get(key) === listeners) {
+        this.subscribers.delete(key);
+      }
+    };
+  }
+}
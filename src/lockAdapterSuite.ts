@@ -0,0 +1,192 @@
+import { randomBytes } from "crypto";
+import { BurstValve } from "./index";
+import { DistributedLockAdapter, LockMessage } from "./lock";
+
+/**
+ * Test framework running the distributed lock adapter suite (matching the
+ * describe, test and expect globals of jest, vitest and the like)
+ */
+export interface LockAdapterSuiteFramework {
+  describe(name: string, fn: () => void): void;
+  test(name: string, fn: () => Promise<void>): void;
+  expect(actual: unknown): {
+    toEqual(expected: unknown): void;
+    toStrictEqual(expected: unknown): void;
+    toHaveLength(length: number): void;
+  };
+}
+
+/**
+ * Options for running the distributed lock adapter suite
+ */
+export interface LockAdapterSuiteOptions {
+  /**
+   * Number of milliseconds to wait on messages crossing the adapter's
+   * storage, such as a pub/sub round trip (defaults to 10)
+   */
+  delay?: number;
+}
+
+/**
+ * Defines a suite verifying an adapter meets the contract DistributedLock
+ * relies on. Each call to createAdapter should return a separate connection
+ * to the same storage, the way separate hosts would
+ * @param {LockAdapterSuiteFramework} framework Test framework defining the suite
+ * @param {string} name Name of the suite
+ * @param {Function} createAdapter Creates a new connection to the adapter's storage
+ * @param {LockAdapterSuiteOptions} [options] Suite options
+ */
+export const describeLockAdapter = (
+  { describe, test, expect }: LockAdapterSuiteFramework,
+  name: string,
+  createAdapter: () => DistributedLockAdapter | Promise<DistributedLockAdapter>,
+  options: LockAdapterSuiteOptions = {}
+): void => {
+  const delay = options.delay ?? 10;
+  const settle = (ms = delay) =>
+    new Promise((resolve) => setTimeout(resolve, ms));
+  const uniqueKey = () => `burst-valve-suite:${randomBytes(8).toString("hex")}`;
+
+  describe(name, () => {
+    test("should only hand the lock to one caller at a time", async () => {
+      const [first, second] = await Promise.all([
+        createAdapter(),
+        createAdapter(),
+      ]);
+      const key = uniqueKey();
+
+      expect(await first.acquire(key, 1000)).toStrictEqual(true);
+      expect(await second.acquire(key, 1000)).toStrictEqual(false);
+      expect(await first.acquire(key, 1000)).toStrictEqual(false);
+      expect(await second.acquire(uniqueKey(), 1000)).toStrictEqual(true);
+    });
+
+    test("should free the lock once released", async () => {
+      const [first, second] = await Promise.all([
+        createAdapter(),
+        createAdapter(),
+      ]);
+      const key = uniqueKey();
+
+      expect(await first.acquire(key, 1000)).toStrictEqual(true);
+      await first.release(key);
+      expect(await second.acquire(key, 1000)).toStrictEqual(true);
+    });
+
+    test("should expire the lock after the ttl", async () => {
+      const [first, second] = await Promise.all([
+        createAdapter(),
+        createAdapter(),
+      ]);
+      const key = uniqueKey();
+
+      expect(await first.acquire(key, 50)).toStrictEqual(true);
+      await settle(50 + delay);
+      expect(await second.acquire(key, 1000)).toStrictEqual(true);
+    });
+
+    test("should release the lock and deliver the message to every subscriber when publishing", async () => {
+      const [first, second, third] = await Promise.all([
+        createAdapter(),
+        createAdapter(),
+        createAdapter(),
+      ]);
+      const key = uniqueKey();
+      const messages: LockMessage[] = [];
+
+      await second.subscribe(key, (message) => messages.push(message));
+      await third.subscribe(key, (message) => messages.push(message));
+      expect(await first.acquire(key, 1000)).toStrictEqual(true);
+
+      await first.publish(key, { result: { id: 1, tags: ["a"] } });
+      await settle();
+      expect(messages).toEqual([
+        { result: { id: 1, tags: ["a"] } },
+        { result: { id: 1, tags: ["a"] } },
+      ]);
+      expect(await second.acquire(key, 1000)).toStrictEqual(true);
+    });
+
+    test("should deliver serialized errors intact", async () => {
+      const [first, second] = await Promise.all([
+        createAdapter(),
+        createAdapter(),
+      ]);
+      const key = uniqueKey();
+      const messages: LockMessage[] = [];
+
+      await second.subscribe(key, (message) => messages.push(message));
+      await first.acquire(key, 1000);
+      await first.publish(key, {
+        error: { name: "TypeError", message: "Failed", stack: "TypeError: x" },
+      });
+      await settle();
+      expect(messages).toEqual([
+        {
+          error: {
+            name: "TypeError",
+            message: "Failed",
+            stack: "TypeError: x",
+          },
+        },
+      ]);
+    });
+
+    test("should only deliver messages to subscribers of the key", async () => {
+      const [first, second] = await Promise.all([
+        createAdapter(),
+        createAdapter(),
+      ]);
+      const key = uniqueKey();
+      const messages: LockMessage[] = [];
+
+      await second.subscribe(uniqueKey(), (message) => messages.push(message));
+      await first.acquire(key, 1000);
+      await first.publish(key, { result: 1 });
+      await settle();
+      expect(messages).toEqual([]);
+    });
+
+    test("should stop delivering messages once unsubscribed", async () => {
+      const [first, second] = await Promise.all([
+        createAdapter(),
+        createAdapter(),
+      ]);
+      const key = uniqueKey();
+      const messages: LockMessage[] = [];
+
+      const unsubscribe = await second.subscribe(key, (message) =>
+        messages.push(message)
+      );
+      await unsubscribe();
+      await first.acquire(key, 1000);
+      await first.publish(key, { result: 1 });
+      await settle();
+      expect(messages).toEqual([]);
+    });
+
+    test("should coalesce fetches of valves on separate connections", async () => {
+      const prefix = uniqueKey();
+      const runs: number[] = [];
+      const valves = await Promise.all(
+        [1, 2, 3].map(
+          async (host) =>
+            new BurstValve<number, number>({
+              displayName: "Customers",
+              distributedLock: { adapter: await createAdapter(), prefix },
+              fetch: async (id) => {
+                runs.push(host);
+                await settle(delay * 2);
+                return (id as number) * 2;
+              },
+            })
+        )
+      );
+
+      expect(await Promise.all(valves.map((valve) => valve.fetch(5)))).toEqual([
+        10, 10, 10,
+      ]);
+      expect(runs).toHaveLength(1);
+    });
+  });
+};
@@ -0,0 +1,201 @@
+import { EventEmitter } from "events";
+import { BroadcastChannel, threadId, Worker } from "worker_threads";
+import {
+  ClusterChannel,
+  ClusterChannelParams,
+  ClusterProcess,
+  ClusterSource,
+  ClusterWorker,
+} from "./cluster";
+
+/**
+ * Default name of the broadcast channel shared by every thread
+ */
+export const THREAD_CHANNEL_NAME = "burst-valve:threads";
+
+/**
+ * Addressing added to every message sent over the broadcast channel
+ */
+interface ThreadEnvelope {
+  from?: number;
+  to?: number;
+}
+
+/**
+ * Messages sent by thread valves on the broadcast channel, exposed to a
+ * ClusterPrimary as if every thread were a cluster worker
+ */
+export class ThreadSource extends EventEmitter implements ClusterSource {
+  /**
+   * Broadcast channel shared with every thread
+   * @type {BroadcastChannel}
+   * @readonly
+   * @private
+   */
+  private readonly channel: BroadcastChannel;
+
+  /**
+   * Threads that have sent messages, by thread id
+   * @type {Map}
+   * @readonly
+   * @private
+   */
+  private readonly threads = new Map<number, ClusterWorker>();
+
+  /**
+   * Starts listening for thread valves on the broadcast channel
+   * @param {string} [name] Name of the broadcast channel (defaults to burst-valve:threads)
+   */
+  constructor(name = THREAD_CHANNEL_NAME) {
+    super();
+    this.channel = new BroadcastChannel(name);
+    this.channel.onmessage = (event) => {
+      const message = (event as MessageEvent).data as ThreadEnvelope;
+      if (typeof message?.from === "number" && message.to === undefined) {
+        this.emit("message", this.thread(message.from), message);
+      }
+    };
+    this.channel.unref();
+  }
+
+  /**
+   * Hands the claims of a worker thread over to other threads once it exits
+   * @param {Worker} worker Worker thread to watch
+   */
+  public watch(worker: Worker): void {
+    const id = worker.threadId;
+    worker.once("exit", () => this.emit("exit", this.thread(id)));
+  }
+
+  /**
+   * Stops listening on the broadcast channel
+   */
+  public close(): void {
+    this.channel.close();
+  }
+
+  /**
+   * Creates (or reuses) the cluster worker view of a thread
+   * @param {number} id Thread id
+   * @returns {ClusterWorker} Worker sending messages addressed to the thread
+   */
+  private thread(id: number): ClusterWorker {
+    let thread = this.threads.get(id);
+    if (!thread) {
+      thread = {
+        id,
+        send: (message) => {
+          this.channel.postMessage({ ...(message as object), to: id });
+          return true;
+        },
+      };
+      this.threads.set(id, thread);
+    }
+    return thread;
+  }
+}
+
+/**
+ * Broadcast channel of a single thread, exposed to a ClusterChannel as if it
+ * were the IPC channel of a cluster worker
+ */
+export class ThreadProcess implements ClusterProcess {
+  /**
+   * Broadcast channel shared with every thread
+   * @type {BroadcastChannel}
+   * @readonly
+   * @private
+   */
+  private readonly channel: BroadcastChannel;
+
+  /**
+   * Listeners for messages addressed to the thread
+   * @type {Set}
+   * @readonly
+   * @private
+   */
+  private readonly listeners = new Set<(message: unknown) => void>();
+
+  /**
+   * Opens the broadcast channel for the thread
+   * @param {string} [name] Name of the broadcast channel (defaults to burst-valve:threads)
+   * @param {number} [id] Identifier of the thread (defaults to the current thread id)
+   */
+  constructor(name = THREAD_CHANNEL_NAME, private readonly id = threadId) {
+    this.channel = new BroadcastChannel(name);
+    this.channel.onmessage = (event) => {
+      const message = (event as MessageEvent).data as ThreadEnvelope;
+      if (message?.to === this.id) {
+        this.listeners.forEach((listener) => listener(message));
+      }
+    };
+    this.channel.unref();
+  }
+
+  /**
+   * Posts a message to the primary
+   * @param {any} message Message to send
+   * @returns {boolean} Always true, the broadcast channel never blocks
+   */
+  public send(message: unknown): boolean {
+    this.channel.postMessage({ ...(message as object), from: this.id });
+    return true;
+  }
+
+  /**
+   * Listens for messages addressed to the thread, keeping the
+   * thread alive while any listener is attached
+   * @param {string} _event Only message events are supported
+   * @param {Function} listener Callback receiving each message
+   * @returns {ThreadProcess} The thread process, for chaining
+   */
+  public on(_event: "message", listener: (message: unknown) => void): this {
+    this.listeners.add(listener);
+    this.channel.ref();
+    return this;
+  }
+
+  /**
+   * Removes a message listener
+   * @param {string} _event Only message events are supported
+   * @param {Function} listener Callback to remove
+   * @returns {ThreadProcess} The thread process, for chaining
+   */
+  public off(_event: "message", listener: (message: unknown) => void): this {
+    this.listeners.delete(listener);
+    if (this.listeners.size === 0) {
+      this.channel.unref();
+    }
+    return this;
+  }
+
+  /**
+   * Closes the broadcast channel
+   */
+  public close(): void {
+    this.channel.close();
+  }
+}
+
+/**
+ * Channels shared by every valve of the current thread, by wait limits
+ */
+const threadChannels = new Map<string, ClusterChannel>();
+
+/**
+ * Creates (or reuses) the channel to the primary over the default broadcast channel,
+ * sharing a single channel between every valve with the same wait limits
+ * @param {ClusterChannelParams} [params] Acknowledgement and wait timeouts
+ * @returns {ClusterChannel} Channel of the thread
+ */
+export const getThreadChannel = (
+  params: ClusterChannelParams = {}
+): ClusterChannel => {
+  const key = `${params.ackTimeout}:${params.waitTimeout}`;
+  let channel = threadChannels.get(key);
+  if (!channel) {
+    channel = new ClusterChannel(new ThreadProcess(), params);
+    threadChannels.set(key, channel);
+  }
+  return channel;
+};
@@ -0,0 +1,225 @@
+import { randomBytes } from "crypto";
+
+/**
+ * Attribute values attached to spans, links and span events
+ */
+export type SpanAttributes = Record<
+  string,
+  string | number | boolean | Array<string | number | boolean>
+>;
+
+/**
+ * Identifiers of a span within a trace
+ */
+export interface SpanContext {
+  traceId: string;
+  spanId: string;
+}
+
+/**
+ * Reference from one span to another
+ */
+export interface SpanLink {
+  context: SpanContext;
+  attributes?: SpanAttributes;
+}
+
+/**
+ * Status codes of a span (matching the OpenTelemetry values)
+ */
+export const SpanStatusCode = {
+  UNSET: 0,
+  OK: 1,
+  ERROR: 2,
+} as const;
+
+/**
+ * Final status of a span
+ */
+export interface SpanStatus {
+  code: (typeof SpanStatusCode)[keyof typeof SpanStatusCode];
+  message?: string;
+}
+
+/**
+ * Minimal span api, modelled on OpenTelemetry so that its spans can be used directly
+ */
+export interface Span {
+  spanContext(): SpanContext;
+  setAttribute(key: string, value: SpanAttributes[string]): void;
+  addEvent(name: string, attributes?: SpanAttributes): void;
+  addLink?(link: SpanLink): void;
+  recordException(exception: Error): void;
+  setStatus(status: SpanStatus): void;
+  end(): void;
+}
+
+/**
+ * Options when starting a new span
+ */
+export interface SpanOptions {
+  attributes?: SpanAttributes;
+  links?: SpanLink[];
+}
+
+/**
+ * Minimal tracer api, modelled on OpenTelemetry so that its tracers can be used directly
+ */
+export interface Tracer {
+  startSpan(name: string, options?: SpanOptions): Span;
+}
+
+/**
+ * Span recorded in memory
+ */
+export class InMemorySpan implements Span {
+  /**
+   * Identifiers of the span
+   * @type {SpanContext}
+   * @readonly
+   * @private
+   */
+  private readonly context: SpanContext = {
+    traceId: randomBytes(16).toString("hex"),
+    spanId: randomBytes(8).toString("hex"),
+  };
+
+  /**
+   * Attributes of the span
+   * @type {SpanAttributes}
+   * @readonly
+   */
+  public readonly attributes: SpanAttributes;
+
+  /**
+   * Links to other spans
+   * @type {SpanLink[]}
+   * @readonly
+   */
+  public readonly links: SpanLink[];
+
+  /**
+   * Events recorded during the span
+   * @type {Array}
+   * @readonly
+   */
+  public readonly events: Array<{ name: string; attributes?: SpanAttributes }> =
+    [];
+
+  /**
+   * Exceptions recorded during the span
+   * @type {Error[]}
+   * @readonly
+   */
+  public readonly exceptions: Error[] = [];
+
+  /**
+   * Final status of the span
+   * @type {SpanStatus}
+   */
+  public status: SpanStatus = { code: SpanStatusCode.UNSET };
+
+  /**
+   * Indicates if the span has ended
+   * @type {boolean}
+   */
+  public ended = false;
+
+  /**
+   * Starts recording a span
+   * @param {string} name Name of the span
+   * @param {SpanOptions} [options] Initial attributes and links
+   */
+  constructor(public readonly name: string, options?: SpanOptions) {
+    this.attributes = { ...options?.attributes };
+    this.links = [...(options?.links || [])];
+  }
+
+  /**
+   * Identifiers of the span
+   * @returns {SpanContext} Trace and span identifiers
+   */
+  public spanContext(): SpanContext {
+    return this.context;
+  }
+
+  /**
+   * Sets a single attribute on the span
+   * @param {string} key Attribute name
+   * @param {any} value Attribute value
+   */
+  public setAttribute(key: string, value: SpanAttributes[string]): void {
+    this.attributes[key] = value;
+  }
+
+  /**
+   * Records an event on the span
+   * @param {string} name Name of the event
+   * @param {SpanAttributes} [attributes] Attributes of the event
+   */
+  public addEvent(name: string, attributes?: SpanAttributes): void {
+    this.events.push({ name, attributes });
+  }
+
+  /**
+   * Links the span to another span
+   * @param {SpanLink} link Reference to the other span
+   */
+  public addLink(link: SpanLink): void {
+    this.links.push(link);
+  }
+
+  /**
+   * Records an exception on the span
+   * @param {Error} exception Error raised during the span
+   */
+  public recordException(exception: Error): void {
+    this.exceptions.push(exception);
+  }
+
+  /**
+   * Sets the final status of the span
+   * @param {SpanStatus} status Status code and message
+   */
+  public setStatus(status: SpanStatus): void {
+    this.status = status;
+  }
+
+  /**
+   * Ends the span
+   */
+  public end(): void {
+    this.ended = true;
+  }
+}
+
+/**
+ * Tracer keeping every span in memory (useful for tests)
+ */
+export class InMemoryTracer implements Tracer {
+  /**
+   * Every span started by the tracer, in order
+   * @type {InMemorySpan[]}
+   * @readonly
+   */
+  public readonly spans: InMemorySpan[] = [];
+
+  /**
+   * Starts recording a new span
+   * @param {string} name Name of the span
+   * @param {SpanOptions} [options] Initial attributes and links
+   * @returns {InMemorySpan} Newly started span
+   */
+  public startSpan(name: string, options?: SpanOptions): InMemorySpan {
+    const span = new InMemorySpan(name, options);
+    this.spans.push(span);
+    return span;
+  }
+
+  /**
+   * Clears every recorded span
+   */
+  public reset(): void {
+    this.spans.length = 0;
+  }
+}
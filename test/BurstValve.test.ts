@@ -1,6 +1,18 @@
-import { BurstValve, FetcherProcess } from "../src";
+import diagnostics_channel from "diagnostics_channel";
+import {
+  BurstValve,
+  CircuitOpenError,
+  DIAGNOSTICS_CHANNELS,
+  FetcherProcess,
+  InMemoryTracer,
+  QueueFullError,
+  Span,
+  TimeoutError,
+  ValveClosedError,
+} from "../src";
 
 const wait = () => new Promise((resolve) => setTimeout(resolve, 10));
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
 
 interface FetchResult {
   foo?: string;
@@ -279,6 +291,19 @@ describe("BurstValve", () => {
         );
         expect(run4.cause).toStrictEqual(`Drain subqueue2 Error`);
       });
+
+      test("should raise errors thrown synchronously by the fetcher", async () => {
+        const valve = new BurstValve<number, number>((id) => {
+          if (id === 1) {
+            throw new Error(`Sync Error`);
+          }
+          return Promise.resolve(id as number);
+        });
+
+        await expect(valve.fetch(1)).rejects.toThrow(`Sync Error`);
+        expect(valve.isActive(1)).toStrictEqual(false);
+        expect(await valve.fetch(2)).toStrictEqual(2);
+      });
     });
   });
 
@@ -825,4 +850,2536 @@ describe("BurstValve", () => {
       ]);
     });
   });
+  describe("timeout", () => {
+    test("should reject all waiters and free the queue when the valve timeout passes", async () => {
+      let ran = 0;
+      const valve = new BurstValve<number, string>({
+        displayName: "Timeout Valve",
+        timeout: 5,
+        fetch: async () => {
+          // Only the first fetch ever completes, after it has timed out
+          if (++ran > 1) {
+            return new Promise<number>(() => undefined);
+          }
+
+          await wait();
+          return ran;
+        },
+      });
+
+      const [run1, run2] = await Promise.all([
+        valve.fetch("a").catch((reason) => reason),
+        valve.fetch("a").catch((reason) => reason),
+      ]);
+      expect(run1).toBeInstanceOf(TimeoutError);
+      expect(run1.message).toStrictEqual(
+        `Fetch timed out after 5ms for 'a' subqueue in Timeout Valve`
+      );
+      expect(run1.subqueue).toStrictEqual("a");
+      expect(run1.displayName).toStrictEqual("Timeout Valve");
+      expect(run2 === run1).toBeTruthy();
+      expect(valve.isActive("a")).toStrictEqual(false);
+
+      // Next caller starts a new fetch, which is not flushed by the late result
+      const run3 = valve.fetch("a").catch((reason) => reason);
+      expect(ran).toStrictEqual(2);
+      await wait();
+      expect(await run3).toBeInstanceOf(TimeoutError);
+    });
+
+    test("should time out the global queue", async () => {
+      const valve = new BurstValve<number>({
+        timeout: 5,
+        fetch: () => new Promise<number>(() => undefined),
+      });
+
+      const error = await valve.fetch().catch((reason) => reason);
+      expect(error).toBeInstanceOf(TimeoutError);
+      expect(error.message).toStrictEqual(
+        `Fetch timed out after 5ms in Burst Valve`
+      );
+      expect(error.subqueue).toStrictEqual(undefined);
+      expect(valve.isActive()).toStrictEqual(false);
+    });
+
+    test("should time out batch keys that have not been written", async () => {
+      const valve = new BurstValve<number, number>({
+        timeout: 15,
+        batch: async (_ids, earlyWrite) => {
+          earlyWrite(1, 10);
+          await wait();
+          await wait();
+          earlyWrite(2, 20);
+        },
+      });
+
+      const results = await valve.batch([1, 2]);
+      expect(results[0]).toStrictEqual(10);
+      expect(results[1]).toBeInstanceOf(TimeoutError);
+      expect((results[1] as TimeoutError).subqueue).toStrictEqual(2);
+      expect(valve.isActive(1)).toStrictEqual(false);
+      expect(valve.isActive(2)).toStrictEqual(false);
+    });
+
+    test("should only reject the caller when the per call timeout passes", async () => {
+      let ran = 0;
+      const valve = new BurstValve<number, string>(async () => {
+        ran++;
+        await wait();
+        return 25;
+      });
+
+      const [run1, run2] = await Promise.all([
+        valve.fetch("a").catch((reason) => reason),
+        valve.fetch("a", { timeout: 2 }).catch((reason) => reason),
+      ]);
+      expect(run1).toStrictEqual(25);
+      expect(run2).toBeInstanceOf(TimeoutError);
+      expect(run2.timeout).toStrictEqual(2);
+      expect(ran).toStrictEqual(1);
+    });
+
+    test("should keep the subqueue active for the fetcher when the per call timeout passes", async () => {
+      const valve = new BurstValve<number, string>(async () => {
+        await wait();
+        return 25;
+      });
+
+      await expect(valve.fetch("a", { timeout: 2 })).rejects.toThrow(
+        TimeoutError
+      );
+      expect(valve.isActive("a")).toStrictEqual(true);
+      expect(await valve.fetch("a")).toStrictEqual(25);
+    });
+
+    test("should return timeout errors for unresolved batch keys", async () => {
+      const valve = new BurstValve<number, number>({
+        batch: async (_ids, earlyWrite) => {
+          earlyWrite(1, 10);
+          return new Promise<void>(() => undefined);
+        },
+      });
+
+      const results = await valve.batch([1, 2], { timeout: 2 });
+      expect(results[0]).toStrictEqual(10);
+      expect(results[1]).toBeInstanceOf(TimeoutError);
+
+      await expect(valve.unsafeBatch([3, 4], { timeout: 2 })).rejects.toThrow(
+        `Fetch timed out after 2ms for '3' subqueue in Burst Valve`
+      );
+    });
+
+    test("should stream timeout errors for unresolved keys", async () => {
+      const responses: Array<[number, number | Error]> = [];
+      const valve = new BurstValve<number, number>({
+        batch: async (_ids, earlyWrite) => {
+          earlyWrite(1, 10);
+          return new Promise<void>(() => undefined);
+        },
+      });
+
+      await valve.stream(
+        [1, 2],
+        async (id, result) => {
+          responses.push([id, result]);
+        },
+        { timeout: 2 }
+      );
+      expect(responses).toEqual([
+        [1, 10],
+        [2, expect.any(TimeoutError)],
+      ]);
+    });
+  });
+  describe("abort", () => {
+    test("should reject an aborted waiter without affecting the others", async () => {
+      let ran = 0;
+      const valve = new BurstValve<number, string>(async () => {
+        ran++;
+        await wait();
+        return 25;
+      });
+      const controller = new AbortController();
+      const abortError = new Error(`Client Disconnected`);
+
+      const run1 = valve.fetch("a");
+      const run2 = valve.fetch("a", { signal: controller.signal });
+      controller.abort(abortError);
+
+      await expect(run2).rejects.toBe(abortError);
+      expect(await run1).toStrictEqual(25);
+      expect(ran).toStrictEqual(1);
+    });
+
+    test("should wrap non-Error abort reasons", async () => {
+      const valve = new BurstValve<number>(async () => {
+        await wait();
+        return 25;
+      });
+      const controller = new AbortController();
+
+      const run = valve.fetch(undefined, { signal: controller.signal });
+      controller.abort(`Gone`);
+
+      await expect(run).rejects.toThrow(`Fetch aborted for Burst Valve: Gone`);
+    });
+
+    test("should reject right away when the signal is already aborted", async () => {
+      let ran = 0;
+      const valve = new BurstValve<number, string>(async () => {
+        ran++;
+        return 25;
+      });
+      const controller = new AbortController();
+      controller.abort(new Error(`Already Aborted`));
+
+      await expect(
+        valve.fetch("a", { signal: controller.signal })
+      ).rejects.toThrow(`Already Aborted`);
+      expect(valve.isActive("a")).toStrictEqual(false);
+      expect(ran).toStrictEqual(0);
+    });
+
+    test("should abort the fetcher process once every waiter has aborted", async () => {
+      const signals: AbortSignal[] = [];
+      const valve = new BurstValve<number, string>(async (_id, signal) => {
+        signals.push(signal);
+        await wait();
+        return 25;
+      });
+      const controller1 = new AbortController();
+      const controller2 = new AbortController();
+
+      const run1 = valve.fetch("a", { signal: controller1.signal });
+      const run2 = valve.fetch("a", { signal: controller2.signal });
+      controller1.abort(new Error(`Abort 1`));
+      expect(signals[0].aborted).toStrictEqual(false);
+      expect(valve.isActive("a")).toStrictEqual(true);
+
+      controller2.abort(new Error(`Abort 2`));
+      expect(signals[0].aborted).toStrictEqual(true);
+      expect(valve.isActive("a")).toStrictEqual(false);
+
+      await expect(run1).rejects.toThrow(`Abort 1`);
+      await expect(run2).rejects.toThrow(`Abort 2`);
+
+      // Late results from the aborted fetcher do not resolve new waiters
+      const run3 = valve.fetch("a");
+      expect(signals.length).toStrictEqual(2);
+      expect(await run3).toStrictEqual(25);
+    });
+
+    test("should only abort the batch fetcher once every key has been abandoned", async () => {
+      const signals: AbortSignal[] = [];
+      const valve = new BurstValve<number, number>({
+        batch: async (ids, _earlyWrite, signal) => {
+          signals.push(signal);
+          await wait();
+          return ids.map((id) => id * 2);
+        },
+      });
+      const controller1 = new AbortController();
+      const controller2 = new AbortController();
+
+      const run1 = valve.batch([1, 2], { signal: controller1.signal });
+      const run2 = valve.fetch(2, { signal: controller2.signal });
+
+      controller1.abort(new Error(`Abort 1`));
+      await expect(run1).rejects.toThrow(`Abort 1`);
+      expect(signals[0].aborted).toStrictEqual(false);
+      expect(valve.isActive(1)).toStrictEqual(false);
+      expect(valve.isActive(2)).toStrictEqual(true);
+
+      controller2.abort(new Error(`Abort 2`));
+      await expect(run2).rejects.toThrow(`Abort 2`);
+      expect(signals[0].aborted).toStrictEqual(true);
+      expect(valve.isActive(2)).toStrictEqual(false);
+    });
+
+    test("should stop streaming once aborted", async () => {
+      const responses: number[] = [];
+      const valve = new BurstValve<number, number>({
+        batch: async (_ids, earlyWrite) => {
+          earlyWrite(1, 10);
+          await wait();
+          earlyWrite(2, 20);
+        },
+      });
+      const controller = new AbortController();
+
+      const streamPromise = valve.stream(
+        [1, 2],
+        async (id) => {
+          responses.push(id);
+        },
+        { signal: controller.signal }
+      );
+      controller.abort(new Error(`Stream Aborted`));
+
+      await expect(streamPromise).rejects.toThrow(`Stream Aborted`);
+      await wait();
+      expect(responses).toEqual([1]);
+    });
+  });
+  describe("resultTtl", () => {
+    test("should answer fetch calls from retained results within the window", async () => {
+      let ran = 0;
+      const valve = new BurstValve<number, string>({
+        resultTtl: 30,
+        fetch: async () => ++ran,
+      });
+
+      expect(await valve.fetch("a")).toStrictEqual(1);
+      expect(await valve.fetch("a")).toStrictEqual(1);
+      expect(await valve.fetch("b")).toStrictEqual(2);
+      expect(await valve.fetch()).toStrictEqual(3);
+      expect(await valve.fetch()).toStrictEqual(3);
+
+      await sleep(40);
+      expect(await valve.fetch("a")).toStrictEqual(4);
+      expect(await valve.fetch()).toStrictEqual(5);
+    });
+
+    test("should not retain errors", async () => {
+      let ran = 0;
+      const valve = new BurstValve<number, string>({
+        resultTtl: 50,
+        fetch: async () => {
+          ran++;
+          throw new Error(`Mock Error ${ran}`);
+        },
+      });
+
+      await expect(valve.fetch("a")).rejects.toThrow(`Mock Error 1`);
+      await expect(valve.fetch("a")).rejects.toThrow(`Mock Error 2`);
+    });
+
+    test("should only batch fetch keys that have not been retained", async () => {
+      const runs: number[][] = [];
+      const valve = new BurstValve<number, number>({
+        resultTtl: 50,
+        batch: async (ids) => {
+          runs.push([...ids]);
+          return ids.map((id) => id * 2);
+        },
+      });
+
+      expect(await valve.batch([1, 2])).toEqual([2, 4]);
+      expect(await valve.unsafeBatch([2, 3])).toEqual([4, 6]);
+      expect(await valve.fetch(3)).toEqual(6);
+
+      const responses: Array<[number, number | Error]> = [];
+      await valve.stream([1, 4], async (id, result) => {
+        responses.push([id, result]);
+      });
+      expect(responses).toEqual([
+        [1, 2],
+        [4, 8],
+      ]);
+      expect(runs).toEqual([[1, 2], [3], [4]]);
+    });
+
+    test("should drop the oldest results once the limit is reached", async () => {
+      const runs: number[][] = [];
+      const valve = new BurstValve<number, number>({
+        resultTtl: 50,
+        maxResults: 2,
+        batch: async (ids) => {
+          runs.push([...ids]);
+          return ids.map((id) => id * 2);
+        },
+      });
+
+      await valve.batch([1, 2, 3]);
+      await valve.batch([1, 2, 3]);
+      expect(runs).toEqual([[1, 2, 3], [1]]);
+    });
+  });
+  describe("staleWhileRevalidate", () => {
+    test("should throw an error if both a result ttl and stale-while-revalidate are defined", () => {
+      expect(
+        () =>
+          new BurstValve<number>({
+            resultTtl: 50,
+            staleWhileRevalidate: { freshFor: 10, staleFor: 50 },
+            fetch: async () => 5,
+          })
+      ).toThrow(
+        `Cannot define both a result ttl and stale-while-revalidate at the same time for Burst Valve`
+      );
+    });
+
+    test("should throw an error if the stale window is not longer than the fresh window", () => {
+      expect(
+        () =>
+          new BurstValve<number>({
+            staleWhileRevalidate: { freshFor: 50, staleFor: 50 },
+            fetch: async () => 5,
+          })
+      ).toThrow(`Stale window must be longer than the fresh window`);
+    });
+
+    test("should serve stale results while running a single background refresh", async () => {
+      let ran = 0;
+      let release: () => void = () => undefined;
+      const valve = new BurstValve<number, string>({
+        staleWhileRevalidate: { freshFor: 25, staleFor: 200 },
+        fetch: async () => {
+          if (ran > 0) {
+            await new Promise<void>((resolve) => (release = resolve));
+          }
+          return ++ran;
+        },
+      });
+
+      expect(await valve.fetch("a")).toStrictEqual(1);
+      expect(await valve.fetch("a")).toStrictEqual(1);
+      expect(valve.isActive("a")).toStrictEqual(false);
+
+      await sleep(30);
+      expect(await valve.fetch("a")).toStrictEqual(1);
+      expect(await valve.fetch("a")).toStrictEqual(1);
+      expect(valve.isActive("a")).toStrictEqual(true);
+      expect(ran).toStrictEqual(1);
+
+      release();
+      await wait();
+      expect(ran).toStrictEqual(2);
+      expect(await valve.fetch("a")).toStrictEqual(2);
+      expect(valve.isActive("a")).toStrictEqual(false);
+    });
+
+    test("should keep serving stale results when the refresh fails", async () => {
+      let ran = 0;
+      const valve = new BurstValve<number>({
+        staleWhileRevalidate: { freshFor: 5, staleFor: 100 },
+        fetch: async () => {
+          if (++ran > 1) {
+            throw new Error(`Refresh Error`);
+          }
+          return ran;
+        },
+      });
+
+      expect(await valve.fetch()).toStrictEqual(1);
+      await wait();
+      expect(await valve.fetch()).toStrictEqual(1);
+      await wait();
+      expect(await valve.fetch()).toStrictEqual(1);
+      expect(ran).toStrictEqual(3);
+    });
+
+    test("should group stale keys into a single batch fetcher run", async () => {
+      const runs: number[][] = [];
+      const releases: Array<() => void> = [];
+      const valve = new BurstValve<number, number>({
+        staleWhileRevalidate: { freshFor: 25, staleFor: 200 },
+        batch: async (ids) => {
+          runs.push([...ids]);
+          const multiplier = runs.length;
+          if (multiplier > 1) {
+            await new Promise<void>((resolve) => releases.push(resolve));
+          }
+          return ids.map((id) => id * multiplier);
+        },
+      });
+
+      expect(await valve.batch([1, 2, 3])).toEqual([1, 2, 3]);
+      await sleep(30);
+
+      // Stale keys returned right away while refreshing in the background
+      expect(await valve.batch([1, 2, 3])).toEqual([1, 2, 3]);
+      expect(runs).toEqual([
+        [1, 2, 3],
+        [1, 2, 3],
+      ]);
+      releases[0]();
+      await wait();
+      expect(await valve.batch([1, 2, 3])).toEqual([2, 4, 6]);
+
+      // Stale keys are refreshed along with inactive keys
+      await sleep(30);
+      const run = valve.batch([1, 4]);
+      expect(runs).toEqual([
+        [1, 2, 3],
+        [1, 2, 3],
+        [4, 1],
+      ]);
+      releases[1]();
+      expect(await run).toEqual([2, 12]);
+    });
+
+    test("should refresh stale keys while streaming", async () => {
+      const runs: number[][] = [];
+      const valve = new BurstValve<number, number>({
+        staleWhileRevalidate: { freshFor: 5, staleFor: 100 },
+        batch: async (ids) => {
+          runs.push([...ids]);
+          return ids.map((id) => id * runs.length);
+        },
+      });
+
+      await valve.batch([1, 2]);
+      await wait();
+
+      const responses: Array<[number, number | Error]> = [];
+      await valve.stream([1, 2], async (id, result) => {
+        responses.push([id, result]);
+      });
+      expect(responses).toEqual([
+        [1, 1],
+        [2, 2],
+      ]);
+      expect(runs).toEqual([
+        [1, 2],
+        [1, 2],
+      ]);
+    });
+  });
+  describe("errorTtl", () => {
+    test("should replay retained errors within the window", async () => {
+      let ran = 0;
+      const valve = new BurstValve<number, string>({
+        errorTtl: 30,
+        fetch: async () => {
+          ran++;
+          throw new Error(`Mock Error ${ran}`);
+        },
+      });
+
+      const error = await valve.fetch("a").catch((reason) => reason);
+      expect(error.message).toStrictEqual(`Mock Error 1`);
+      await expect(valve.fetch("a")).rejects.toBe(error);
+      expect(ran).toStrictEqual(1);
+
+      await sleep(40);
+      await expect(valve.fetch("a")).rejects.toThrow(`Mock Error 2`);
+    });
+
+    test("should only retain errors that pass the predicate", async () => {
+      let ran = 0;
+      const valve = new BurstValve<number, string>({
+        errorTtl: 50,
+        shouldCacheError: (error) => error.message === "Not Found",
+        fetch: async (id) => {
+          ran++;
+          throw new Error(id === "a" ? "Not Found" : "Connection Reset");
+        },
+      });
+
+      await expect(valve.fetch("a")).rejects.toThrow(`Not Found`);
+      await expect(valve.fetch("a")).rejects.toThrow(`Not Found`);
+      await expect(valve.fetch("b")).rejects.toThrow(`Connection Reset`);
+      await expect(valve.fetch("b")).rejects.toThrow(`Connection Reset`);
+      expect(ran).toStrictEqual(3);
+    });
+
+    test("should retain per key errors produced by the batch fetcher", async () => {
+      const runs: number[][] = [];
+      const mockError = new Error(`Mock Error`);
+      const valve = new BurstValve<number, number>({
+        errorTtl: 50,
+        batch: async (ids) => {
+          runs.push([...ids]);
+          return new Map(
+            ids
+              .filter((id) => id !== 3)
+              .map((id) => [id, id === 2 ? mockError : id * 2])
+          );
+        },
+      });
+
+      const [run1, run2, run3] = await valve.batch([1, 2, 3]);
+      expect(run1).toStrictEqual(2);
+      expect(run2).toBe(mockError);
+      expect((run3 as Error).message).toStrictEqual(
+        `Batch fetcher result not found for '3' subqueue in Burst Valve`
+      );
+
+      const [, replay2, replay3] = await valve.batch([1, 2, 3]);
+      expect(replay2).toBe(mockError);
+      expect(replay3).toBe(run3);
+      await expect(valve.unsafeBatch([2])).rejects.toBe(mockError);
+      await expect(valve.fetch(3)).rejects.toBe(run3);
+
+      const responses: Array<[number, number | Error]> = [];
+      await valve.stream([2], async (id, result) => {
+        responses.push([id, result]);
+      });
+      expect(responses).toEqual([[2, mockError]]);
+      expect(runs).toEqual([[1, 2, 3], [1]]);
+    });
+
+    test("should not refresh stale results while an error is retained", async () => {
+      let ran = 0;
+      const valve = new BurstValve<number>({
+        staleWhileRevalidate: { freshFor: 5, staleFor: 100 },
+        errorTtl: 100,
+        fetch: async () => {
+          if (++ran > 1) {
+            throw new Error(`Refresh Error`);
+          }
+          return ran;
+        },
+      });
+
+      expect(await valve.fetch()).toStrictEqual(1);
+      await wait();
+      expect(await valve.fetch()).toStrictEqual(1);
+      await wait();
+      expect(await valve.fetch()).toStrictEqual(1);
+      expect(ran).toStrictEqual(2);
+    });
+  });
+  describe("retry", () => {
+    test("should retry failed fetcher processes until they succeed", async () => {
+      let ran = 0;
+      const valve = new BurstValve<number, string>({
+        retry: { attempts: 3, delay: 1, jitter: false },
+        fetch: async () => {
+          if (++ran < 3) {
+            throw new Error(`Mock Error ${ran}`);
+          }
+          return ran;
+        },
+      });
+
+      const [run1, run2] = await Promise.all([
+        valve.fetch("a"),
+        valve.fetch("a"),
+      ]);
+      expect(run1).toStrictEqual(3);
+      expect(run2).toStrictEqual(3);
+      expect(ran).toStrictEqual(3);
+    });
+
+    test("should raise the last error once out of attempts", async () => {
+      let ran = 0;
+      const valve = new BurstValve<number>({
+        retry: { attempts: 2, delay: 1 },
+        fetch: async () => {
+          throw new Error(`Mock Error ${++ran}`);
+        },
+      });
+
+      await expect(valve.fetch()).rejects.toThrow(`Mock Error 2`);
+      expect(ran).toStrictEqual(2);
+    });
+
+    test("should only retry errors that pass the predicate", async () => {
+      const calls: Array<[string, number, string | undefined]> = [];
+      let ran = 0;
+      const valve = new BurstValve<number, string>({
+        retry: {
+          attempts: 5,
+          delay: 1,
+          shouldRetry: (error, attempt, subqueue) => {
+            calls.push([error.message, attempt, subqueue]);
+            return error.message === "Connection Reset";
+          },
+        },
+        fetch: async () => {
+          throw new Error(++ran === 1 ? "Connection Reset" : "Not Found");
+        },
+      });
+
+      await expect(valve.fetch("a")).rejects.toThrow(`Not Found`);
+      expect(calls).toEqual([
+        ["Connection Reset", 1, "a"],
+        ["Not Found", 2, "a"],
+      ]);
+    });
+
+    test("should stop retrying when the predicate throws", async () => {
+      let ran = 0;
+      const valve = new BurstValve<number, string>({
+        retry: {
+          attempts: 3,
+          delay: 1,
+          shouldRetry: () => {
+            throw new Error(`Predicate Error`);
+          },
+        },
+        fetch: async () => {
+          throw new Error(`Mock Error ${++ran}`);
+        },
+      });
+
+      await expect(valve.fetch("a")).rejects.toThrow(`Mock Error 1`);
+      expect(valve.isActive("a")).toStrictEqual(false);
+      expect(ran).toStrictEqual(1);
+    });
+
+    test("should only retry unresolved batch keys", async () => {
+      const runs: number[][] = [];
+      const valve = new BurstValve<number, number>({
+        retry: { attempts: 3, delay: 1 },
+        batch: async (ids, earlyWrite) => {
+          runs.push([...ids]);
+
+          if (runs.length === 1) {
+            earlyWrite(1, 10);
+            earlyWrite(2, new Error(`Early Error`));
+            throw new Error(`Connection Reset`);
+          } else if (runs.length === 2) {
+            return new Map([[3, 30]]);
+          }
+
+          return ids.map((id) => id * 10);
+        },
+      });
+
+      const results = await valve.batch([1, 2, 3, 4, 5]);
+      expect(results[0]).toStrictEqual(10);
+      expect((results[1] as Error).message).toStrictEqual(`Early Error`);
+      expect(results.slice(2)).toEqual([30, 40, 50]);
+      expect(runs).toEqual([
+        [1, 2, 3, 4, 5],
+        [3, 4, 5],
+        [4, 5],
+      ]);
+    });
+
+    test("should stop retrying once the valve timeout has passed", async () => {
+      let ran = 0;
+      const valve = new BurstValve<number>({
+        timeout: 5,
+        retry: { attempts: 10, delay: 10, jitter: false },
+        fetch: async () => {
+          throw new Error(`Mock Error ${++ran}`);
+        },
+      });
+
+      await expect(valve.fetch()).rejects.toThrow(TimeoutError);
+      await wait();
+      await wait();
+      expect(ran).toStrictEqual(1);
+    });
+  });
+  describe("circuitBreaker", () => {
+    test("should report closed circuits when no circuit breaker is configured", () => {
+      const valve = new BurstValve<FetchResult>(defaultFetcher);
+      expect(valve.circuitState()).toStrictEqual("closed");
+      expect(valve.circuitState("a")).toStrictEqual("closed");
+    });
+
+    test("should reject right away once the circuit is open", async () => {
+      let ran = 0;
+      const valve = new BurstValve<number, string>({
+        circuitBreaker: { consecutiveFailures: 2, cooldown: 20 },
+        fetch: async () => {
+          ran++;
+          throw new Error(`Mock Error`);
+        },
+      });
+
+      await expect(valve.fetch("a")).rejects.toThrow(`Mock Error`);
+      await expect(valve.fetch("b")).rejects.toThrow(`Mock Error`);
+      expect(valve.circuitState()).toStrictEqual("open");
+
+      const error = await valve.fetch("c").catch((reason) => reason);
+      expect(error).toBeInstanceOf(CircuitOpenError);
+      expect(error.message).toStrictEqual(`Circuit is open for Burst Valve`);
+      expect(valve.isActive("c")).toStrictEqual(false);
+      expect(ran).toStrictEqual(2);
+    });
+
+    test("should let a single probe through after the cooldown", async () => {
+      let fail = true;
+      let ran = 0;
+      const valve = new BurstValve<number, string>({
+        circuitBreaker: { consecutiveFailures: 1, cooldown: 10 },
+        fetch: async () => {
+          ran++;
+          await wait();
+          if (fail) {
+            throw new Error(`Mock Error`);
+          }
+          return ran;
+        },
+      });
+
+      await expect(valve.fetch("a")).rejects.toThrow(`Mock Error`);
+      await sleep(15);
+      expect(valve.circuitState()).toStrictEqual("half-open");
+
+      fail = false;
+      const probe = valve.fetch("a");
+      const joined = valve.fetch("a");
+      await expect(valve.fetch("b")).rejects.toThrow(CircuitOpenError);
+      expect(await probe).toStrictEqual(2);
+      expect(await joined).toStrictEqual(2);
+      expect(valve.circuitState()).toStrictEqual("closed");
+      expect(await valve.fetch("b")).toStrictEqual(3);
+    });
+
+    test("should trip circuits per subqueue", async () => {
+      const valve = new BurstValve<number, string>({
+        circuitBreaker: { consecutiveFailures: 1, perSubqueue: true },
+        fetch: async (id) => {
+          if (id === "a") {
+            throw new Error(`Mock Error`);
+          }
+          return 5;
+        },
+      });
+
+      await expect(valve.fetch("a")).rejects.toThrow(`Mock Error`);
+      await expect(valve.fetch("a")).rejects.toThrow(
+        `Circuit is open for 'a' subqueue in Burst Valve`
+      );
+      expect(valve.circuitState("a")).toStrictEqual("open");
+      expect(valve.circuitState("b")).toStrictEqual("closed");
+      expect(await valve.fetch("b")).toStrictEqual(5);
+    });
+
+    test("should reject batch keys with open circuits", async () => {
+      const runs: number[][] = [];
+      const valve = new BurstValve<number, number>({
+        circuitBreaker: { consecutiveFailures: 1, perSubqueue: true },
+        batch: async (ids) => {
+          runs.push([...ids]);
+          return ids.map((id) => (id === 2 ? new Error(`Mock Error`) : id * 2));
+        },
+      });
+
+      await valve.batch([1, 2]);
+      const results = await valve.batch([1, 2, 3]);
+      expect(results[0]).toStrictEqual(2);
+      expect(results[1]).toBeInstanceOf(CircuitOpenError);
+      expect(results[2]).toStrictEqual(6);
+      await expect(valve.unsafeBatch([2])).rejects.toThrow(CircuitOpenError);
+      expect(runs).toEqual([
+        [1, 2],
+        [1, 3],
+      ]);
+    });
+
+    test("should count each batch fetcher run once for the entire valve", async () => {
+      const valve = new BurstValve<number, number>({
+        circuitBreaker: { consecutiveFailures: 2 },
+        batch: async () => {
+          throw new Error(`Mock Error`);
+        },
+      });
+
+      const results = await valve.batch([1, 2, 3, 4, 5]);
+      expect(results).toEqual(Array(5).fill(new Error(`Mock Error`)));
+      expect(valve.circuitState()).toStrictEqual("closed");
+
+      await valve.batch([1, 2, 3, 4, 5]);
+      expect(valve.circuitState()).toStrictEqual("open");
+    });
+
+    test("should only count batch runs as failures when no key succeeds", async () => {
+      const valve = new BurstValve<number, number>({
+        circuitBreaker: { consecutiveFailures: 1 },
+        batch: async (ids) =>
+          ids.map((id) => (id === 2 ? new Error(`Not Found`) : id * 2)),
+      });
+
+      expect(await valve.batch([1, 2, 3])).toEqual([
+        2,
+        new Error(`Not Found`),
+        6,
+      ]);
+      expect(valve.circuitState()).toStrictEqual("closed");
+
+      await valve.batch([2]);
+      expect(valve.circuitState()).toStrictEqual("open");
+    });
+  });
+  describe("batchWindow", () => {
+    test("should collect fetch calls made in the same tick into a single batch", async () => {
+      const runs: number[][] = [];
+      const valve = new BurstValve<number, number>({
+        batchWindow: "tick",
+        batch: async (ids) => {
+          runs.push([...ids]);
+          return ids.map((id) => id * 2);
+        },
+      });
+
+      const results = await Promise.all(
+        Array.from({ length: 100 }, (_v, index) => valve.fetch(index % 50))
+      );
+      expect(results).toEqual(
+        Array.from({ length: 100 }, (_v, index) => (index % 50) * 2)
+      );
+      expect(runs).toEqual([Array.from({ length: 50 }, (_v, index) => index)]);
+    });
+
+    test("should collect calls made after awaiting within the tick window", async () => {
+      const runs: number[][] = [];
+      const valve = new BurstValve<number, number>({
+        batchWindow: "tick",
+        batch: async (ids) => {
+          runs.push([...ids]);
+          return ids.map((id) => id * 2);
+        },
+      });
+
+      // Calls made from a macrotask, where the tick ends before any promise continuations
+      const results = await new Promise<number[]>((resolve, reject) =>
+        setImmediate(() =>
+          Promise.all([
+            valve.fetch(9),
+            ...[1, 2, 3].map(async (id) => {
+              await null;
+              return valve.fetch(id);
+            }),
+          ]).then(resolve, reject)
+        )
+      );
+      expect(results).toEqual([18, 2, 4, 6]);
+      expect(runs).toEqual([[9, 1, 2, 3]]);
+    });
+
+    test("should collect keys from fetch, batch and stream calls within the microtask window", async () => {
+      const runs: number[][] = [];
+      const streamed: number[] = [];
+      const valve = new BurstValve<number, number>({
+        batchWindow: "microtask",
+        batch: async (ids, earlyWrite) => {
+          runs.push([...ids]);
+          ids.forEach((id) => earlyWrite(id, id * 2));
+        },
+      });
+
+      const [run1, run2, run3] = await Promise.all([
+        valve.fetch(1),
+        valve.batch([1, 2, 3]),
+        valve.unsafeBatch([3, 4]),
+        valve.stream([4, 5], async (id) => {
+          streamed.push(id);
+        }),
+      ]);
+      expect(run1).toStrictEqual(2);
+      expect(run2).toEqual([2, 4, 6]);
+      expect(run3).toEqual([6, 8]);
+      expect(streamed).toEqual([4, 5]);
+      expect(runs).toEqual([[1, 2, 3, 4, 5]]);
+    });
+
+    test("should collect keys for the number of milliseconds specified", async () => {
+      const runs: number[][] = [];
+      const valve = new BurstValve<number, number>({
+        batchWindow: 10,
+        batch: async (ids) => {
+          runs.push([...ids]);
+          return ids.map((id) => id * 2);
+        },
+      });
+
+      const run1 = valve.fetch(1);
+      await sleep(2);
+      const run2 = valve.fetch(2);
+      expect(runs).toEqual([]);
+
+      expect(await Promise.all([run1, run2])).toEqual([2, 4]);
+      expect(runs).toEqual([[1, 2]]);
+    });
+
+    test("should still share active subqueues outside of the window", async () => {
+      const runs: number[][] = [];
+      const valve = new BurstValve<number, number>({
+        batchWindow: "tick",
+        batch: async (ids) => {
+          runs.push([...ids]);
+          await wait();
+          return ids.map((id) => id * 2);
+        },
+      });
+
+      const run1 = valve.batch([1, 2]);
+      await sleep(2);
+      const run2 = valve.batch([2, 3]);
+
+      expect(await run1).toEqual([2, 4]);
+      expect(await run2).toEqual([4, 6]);
+      expect(runs).toEqual([[1, 2], [3]]);
+    });
+
+    test("should skip keys abandoned before the window closes", async () => {
+      const runs: number[][] = [];
+      const signals: AbortSignal[] = [];
+      const valve = new BurstValve<number, number>({
+        batchWindow: "tick",
+        batch: async (ids, _earlyWrite, signal) => {
+          runs.push([...ids]);
+          signals.push(signal);
+          return ids.map((id) => id * 2);
+        },
+      });
+      const controller = new AbortController();
+
+      const run1 = valve.fetch(1, { signal: controller.signal });
+      controller.abort(new Error(`Aborted`));
+      const run2 = valve.fetch(2);
+
+      await expect(run1).rejects.toThrow(`Aborted`);
+      expect(await run2).toStrictEqual(4);
+      expect(runs).toEqual([[2]]);
+      expect(signals[0].aborted).toStrictEqual(false);
+    });
+  });
+  describe("maxBatchSize", () => {
+    test("should split batch fetcher invocations into chunks", async () => {
+      const runs: number[][] = [];
+      const valve = new BurstValve<number, number>({
+        maxBatchSize: 2,
+        batch: async (ids) => {
+          runs.push([...ids]);
+          return ids.map((id) => id * 2);
+        },
+      });
+
+      expect(await valve.batch([1, 2, 3, 4, 5])).toEqual([2, 4, 6, 8, 10]);
+      expect(runs).toEqual([[1, 2], [3, 4], [5]]);
+    });
+
+    test("should support early writing and map results per chunk", async () => {
+      const valve = new BurstValve<number, number>({
+        maxBatchSize: 2,
+        batch: async (ids, earlyWrite) => {
+          if (ids.includes(1)) {
+            ids.forEach((id) => earlyWrite(id, id * 2));
+          } else {
+            return new Map(ids.map((id) => [id, id * 2]));
+          }
+        },
+      });
+
+      expect(await valve.batch([1, 2, 3, 4])).toEqual([2, 4, 6, 8]);
+    });
+
+    test("should limit the number of chunks running in parallel", async () => {
+      let active = 0;
+      let maxActive = 0;
+      const valve = new BurstValve<number, number>({
+        maxBatchSize: 1,
+        maxParallelBatches: 2,
+        batch: async (ids) => {
+          maxActive = Math.max(maxActive, ++active);
+          await sleep(2);
+          active--;
+          return ids.map((id) => id * 2);
+        },
+      });
+
+      expect(await valve.batch([1, 2, 3, 4, 5])).toEqual([2, 4, 6, 8, 10]);
+      expect(maxActive).toStrictEqual(2);
+    });
+
+    test("should only reject the keys of a failing chunk", async () => {
+      const mockError = new Error(`Mock Error`);
+      const valve = new BurstValve<number, number>({
+        maxBatchSize: 2,
+        batch: async (ids) => {
+          if (ids.includes(3)) {
+            throw mockError;
+          }
+          return ids.map((id) => id * 2);
+        },
+      });
+
+      expect(await valve.batch([1, 2, 3, 4, 5])).toEqual([
+        2,
+        4,
+        mockError,
+        mockError,
+        10,
+      ]);
+    });
+
+    test("should only write the array length error to the keys of its chunk", async () => {
+      const valve = new BurstValve<number, number>({
+        maxBatchSize: 2,
+        batch: async (ids) => {
+          return ids.includes(3) ? [6] : ids.map((id) => id * 2);
+        },
+      });
+
+      const streamed = new Map<number, number | Error>();
+      await valve.stream([1, 2, 3, 4], async (id, result) => {
+        streamed.set(id, result);
+      });
+      expect(streamed.get(1)).toStrictEqual(2);
+      expect(streamed.get(2)).toStrictEqual(4);
+      expect(streamed.get(3)).toEqual(
+        new Error(
+          `Batch fetcher result array length does not match key length for Burst Valve`
+        )
+      );
+      expect(streamed.get(4)).toBeInstanceOf(Error);
+    });
+
+    test("should keep the results of other chunks when one chunk fails", async () => {
+      const valve = new BurstValve<number, number>({
+        maxBatchSize: 2,
+        batch: async (ids) => {
+          return ids.includes(3) ? [6] : ids.map((id) => id * 2);
+        },
+      });
+
+      const results = await valve.batch([1, 2, 3, 4]);
+      expect(results.slice(0, 2)).toEqual([2, 4]);
+      expect(results[2]).toBeInstanceOf(Error);
+      expect(results[3]).toBeInstanceOf(Error);
+
+      await expect(valve.unsafeBatch([5, 6, 3, 7])).rejects.toThrow(
+        `Batch fetcher result array length does not match key length for Burst Valve`
+      );
+      expect(await valve.unsafeBatch([5, 6])).toEqual([10, 12]);
+    });
+
+    test("should throw when the limits are less than 1", () => {
+      expect(
+        () =>
+          new BurstValve<number, number>({
+            maxBatchSize: 0,
+            batch: async (ids) => ids,
+          })
+      ).toThrow(
+        `Batch size and parallel batch limits must be at least 1 for Burst Valve`
+      );
+    });
+  });
+  describe("maxConcurrency", () => {
+    test("should limit the number of fetcher processes running at once", async () => {
+      let active = 0;
+      let maxActive = 0;
+      const order: number[] = [];
+      const valve = new BurstValve<number, number>({
+        maxConcurrency: 2,
+        fetch: async (id) => {
+          maxActive = Math.max(maxActive, ++active);
+          order.push(id as number);
+          await sleep(2);
+          active--;
+          return (id as number) * 2;
+        },
+      });
+
+      const results = await Promise.all(
+        [1, 2, 3, 4, 5, 1, 2].map((id) => valve.fetch(id))
+      );
+      expect(results).toEqual([2, 4, 6, 8, 10, 2, 4]);
+      expect(maxActive).toStrictEqual(2);
+      expect(order).toEqual([1, 2, 3, 4, 5]);
+    });
+
+    test("should limit the number of batch fetcher invocations running at once", async () => {
+      let active = 0;
+      let maxActive = 0;
+      const valve = new BurstValve<number, number>({
+        maxConcurrency: 1,
+        batch: async (ids) => {
+          maxActive = Math.max(maxActive, ++active);
+          await sleep(2);
+          active--;
+          return ids.map((id) => id * 2);
+        },
+      });
+
+      const results = await Promise.all([
+        valve.batch([1, 2]),
+        valve.batch([3, 4]),
+        valve.batch([2, 5]),
+      ]);
+      expect(results).toEqual([
+        [2, 4],
+        [6, 8],
+        [4, 10],
+      ]);
+      expect(maxActive).toStrictEqual(1);
+    });
+
+    test("should reject new fetcher runs once the pending queue is full", async () => {
+      const valve = new BurstValve<number, number>({
+        maxConcurrency: 1,
+        maxPending: 1,
+        fetch: async (id) => {
+          await sleep(2);
+          return (id as number) * 2;
+        },
+      });
+
+      const run1 = valve.fetch(1);
+      const run2 = valve.fetch(2);
+      const run3 = valve.fetch(3);
+      const run4 = valve.fetch(2);
+
+      await expect(run3).rejects.toThrow(QueueFullError);
+      await expect(run3).rejects.toThrow(
+        `Pending queue is full, rejecting '3' subqueue in Burst Valve`
+      );
+      expect(await Promise.all([run1, run2, run4])).toEqual([2, 4, 4]);
+      expect(await valve.fetch(3)).toStrictEqual(6);
+    });
+
+    test("should leave the pending queue once the valve timeout frees a waiting run", async () => {
+      const valve = new BurstValve<number, number>({
+        maxConcurrency: 1,
+        maxPending: 1,
+        timeout: 30,
+        fetch: async (id, signal) => {
+          // Hold the slot until the run is aborted
+          if (id !== 3) {
+            await new Promise((resolve) =>
+              signal.addEventListener("abort", resolve)
+            );
+          }
+          return (id as number) * 2;
+        },
+      });
+
+      const runs = Promise.allSettled([valve.fetch(1), valve.fetch(2)]);
+      expect(valve.stats().pendingFetches).toStrictEqual(1);
+      expect(await runs).toEqual([
+        { status: "rejected", reason: expect.any(TimeoutError) },
+        { status: "rejected", reason: expect.any(TimeoutError) },
+      ]);
+      expect(valve.isActive(2)).toStrictEqual(false);
+      expect(valve.stats().pendingFetches).toStrictEqual(0);
+      expect(await valve.fetch(3)).toStrictEqual(6);
+    });
+
+    test("should reject batch keys that would start new runs once the pending queue is full", async () => {
+      const valve = new BurstValve<number, number>({
+        maxConcurrency: 1,
+        maxPending: 0,
+        batch: async (ids) => {
+          await sleep(2);
+          return ids.map((id) => id * 2);
+        },
+      });
+
+      const run1 = valve.batch([1, 2]);
+      const run2 = valve.batch([2, 3]);
+
+      expect(await run1).toEqual([2, 4]);
+      expect(await run2).toEqual([4, expect.any(QueueFullError)]);
+    });
+
+    test("should skip queued fetcher runs that have been abandoned", async () => {
+      const ran: number[] = [];
+      const valve = new BurstValve<number, number>({
+        maxConcurrency: 1,
+        fetch: async (id) => {
+          ran.push(id as number);
+          await sleep(2);
+          return (id as number) * 2;
+        },
+      });
+      const controller = new AbortController();
+
+      const run1 = valve.fetch(1);
+      const run2 = valve.fetch(2, { signal: controller.signal });
+      const run3 = valve.fetch(3);
+      controller.abort(new Error(`Aborted`));
+
+      await expect(run2).rejects.toThrow(`Aborted`);
+      expect(await Promise.all([run1, run3])).toEqual([2, 6]);
+      expect(ran).toEqual([1, 3]);
+    });
+
+    test("should throw when the concurrency limit is less than 1", () => {
+      expect(
+        () =>
+          new BurstValve<number, number>({
+            maxConcurrency: 0,
+            fetch: async () => 1,
+          })
+      ).toThrow(
+        `Concurrency limit must be at least 1, with a non-negative pending limit for Burst Valve`
+      );
+    });
+  });
+  describe("events", () => {
+    test("should emit lifecycle events for the global queue", async () => {
+      const events: string[] = [];
+      const valve = new BurstValve<FetchResult>({
+        displayName: "Events",
+        fetch: async () => {
+          await wait();
+          return { foo: "bar" };
+        },
+      });
+      valve.on("fetchStart", (event) => {
+        expect(event).toEqual({
+          displayName: "Events",
+          subqueues: [undefined],
+          batch: false,
+          attempt: 1,
+        });
+        events.push("fetchStart");
+      });
+      valve.on("coalesce", (event) => {
+        expect(event).toEqual({ displayName: "Events", subqueue: undefined });
+        events.push("coalesce");
+      });
+      valve.on("flush", (event) => {
+        expect(event).toEqual({
+          displayName: "Events",
+          subqueue: undefined,
+          result: { foo: "bar" },
+          waiters: 2,
+          duration: expect.any(Number),
+        });
+        events.push("flush");
+      });
+
+      await Promise.all([valve.fetch(), valve.fetch()]);
+      expect(events).toEqual(["fetchStart", "coalesce", "flush"]);
+    });
+
+    test("should emit fetch errors for keyed subqueues", async () => {
+      const mockError = new Error(`Mock Error`);
+      const onFetchError = jest.fn();
+      const valve = new BurstValve<FetchResult>({
+        fetch: async () => {
+          throw mockError;
+        },
+        hooks: { fetchError: onFetchError },
+      });
+
+      await expect(valve.fetch("abc")).rejects.toThrow(mockError);
+      expect(onFetchError).toHaveBeenCalledTimes(1);
+      expect(onFetchError).toHaveBeenCalledWith({
+        displayName: "Burst Valve",
+        subqueue: "abc",
+        error: mockError,
+        waiters: 1,
+        duration: expect.any(Number),
+      });
+    });
+
+    test("should emit lifecycle events for batch, unsafeBatch and stream", async () => {
+      const hooks = {
+        fetchStart: jest.fn(),
+        coalesce: jest.fn(),
+        earlyWrite: jest.fn(),
+        flush: jest.fn(),
+        fetchError: jest.fn(),
+      };
+      const valve = new BurstValve<number, number>({
+        hooks,
+        batch: async (ids, earlyWrite) => {
+          await wait();
+          ids.forEach((id) =>
+            earlyWrite(id, id === 4 ? new Error(`Not Found`) : id * 2)
+          );
+        },
+      });
+
+      await Promise.all([
+        valve.batch([1, 2]),
+        valve.unsafeBatch([2, 3]),
+        valve.stream([3, 4], async () => undefined),
+      ]);
+
+      expect(hooks.fetchStart.mock.calls).toEqual([
+        [
+          {
+            displayName: "Burst Valve",
+            subqueues: [1, 2],
+            batch: true,
+            attempt: 1,
+          },
+        ],
+        [
+          {
+            displayName: "Burst Valve",
+            subqueues: [3],
+            batch: true,
+            attempt: 1,
+          },
+        ],
+        [
+          {
+            displayName: "Burst Valve",
+            subqueues: [4],
+            batch: true,
+            attempt: 1,
+          },
+        ],
+      ]);
+      expect(hooks.coalesce.mock.calls).toEqual([
+        [{ displayName: "Burst Valve", subqueue: 2 }],
+        [{ displayName: "Burst Valve", subqueue: 3 }],
+      ]);
+      expect(hooks.earlyWrite).toHaveBeenCalledTimes(4);
+      expect(hooks.earlyWrite).toHaveBeenCalledWith({
+        displayName: "Burst Valve",
+        subqueue: 1,
+        result: 2,
+      });
+      expect(hooks.flush).toHaveBeenCalledTimes(3);
+      expect(hooks.flush).toHaveBeenCalledWith({
+        displayName: "Burst Valve",
+        subqueue: 2,
+        result: 4,
+        waiters: 2,
+        duration: expect.any(Number),
+      });
+      expect(hooks.fetchError).toHaveBeenCalledTimes(1);
+      expect(hooks.fetchError).toHaveBeenCalledWith({
+        displayName: "Burst Valve",
+        subqueue: 4,
+        error: new Error(`Not Found`),
+        waiters: 1,
+        duration: expect.any(Number),
+      });
+    });
+
+    test("should emit a fetch start event for each attempt", async () => {
+      const attempts: number[] = [];
+      let runs = 0;
+      const valve = new BurstValve<number, number>({
+        retry: { attempts: 3, delay: 1, jitter: false },
+        fetch: async (id) => {
+          if (++runs < 3) {
+            throw new Error(`Mock Error`);
+          }
+          return (id as number) * 2;
+        },
+      });
+      valve.on("fetchStart", ({ attempt }) => attempts.push(attempt));
+
+      expect(await valve.fetch(1)).toStrictEqual(2);
+      expect(attempts).toEqual([1, 2, 3]);
+    });
+
+    test("should stop emitting to detached listeners", async () => {
+      const listener = jest.fn();
+      const valve = new BurstValve<FetchResult>(defaultFetcher);
+
+      valve.on("flush", listener);
+      await valve.fetch();
+      valve.off("flush", listener);
+      await valve.fetch();
+      valve.once("flush", listener);
+      await valve.fetch();
+      await valve.fetch();
+
+      expect(listener).toHaveBeenCalledTimes(2);
+    });
+  });
+  describe("stats", () => {
+    test("should count calls, fetches, coalesced waiters and errors", async () => {
+      const valve = new BurstValve<number, number>({
+        displayName: "Stats",
+        fetch: async (id) => {
+          await wait();
+          if (id === 3) {
+            throw new Error(`Mock Error`);
+          }
+          return (id as number) * 2;
+        },
+      });
+
+      await Promise.all([
+        valve.fetch(1),
+        valve.fetch(1),
+        valve.fetch(2),
+        valve.fetch(3).catch(() => undefined),
+      ]);
+
+      const stats = valve.stats();
+      expect(stats).toMatchObject({
+        displayName: "Stats",
+        calls: 4,
+        fetches: 3,
+        coalesced: 1,
+        errors: 1,
+        activeQueues: 0,
+        waiters: 0,
+        maxWaiters: 0,
+        pendingFetches: 0,
+      });
+      expect(stats.latency.count).toStrictEqual(3);
+      expect(stats.latency.min).toBeGreaterThanOrEqual(5);
+      expect(stats.batchSizes.count).toStrictEqual(0);
+    });
+
+    test("should track the number of keys per batch invocation", async () => {
+      const valve = new BurstValve<number, number>({
+        batch: async (ids) => {
+          await wait();
+          return ids.map((id) => id * 2);
+        },
+      });
+
+      await Promise.all([
+        valve.batch([1, 2, 3]),
+        valve.unsafeBatch([3, 4]),
+        valve.stream([5], async () => undefined),
+      ]);
+
+      const { calls, fetches, coalesced, batchSizes } = valve.stats();
+      expect({ calls, fetches, coalesced }).toEqual({
+        calls: 3,
+        fetches: 3,
+        coalesced: 1,
+      });
+      expect(batchSizes).toMatchObject({
+        count: 3,
+        sum: 5,
+        min: 1,
+        max: 3,
+      });
+      expect(batchSizes.buckets.slice(0, 3)).toEqual([
+        { le: 1, count: 2 },
+        { le: 2, count: 2 },
+        { le: 5, count: 3 },
+      ]);
+    });
+
+    test("should report gauges of the active queues", async () => {
+      const valve = new BurstValve<number, number>({
+        maxConcurrency: 1,
+        fetch: async (id) => {
+          await wait();
+          return (id as number) * 2;
+        },
+      });
+
+      const runs = Promise.all([
+        valve.fetch(1),
+        valve.fetch(1),
+        valve.fetch(1),
+        valve.fetch(2),
+      ]);
+      expect(valve.stats()).toMatchObject({
+        activeQueues: 2,
+        waiters: 4,
+        maxWaiters: 3,
+        pendingFetches: 1,
+      });
+
+      await runs;
+      expect(valve.stats()).toMatchObject({
+        activeQueues: 0,
+        waiters: 0,
+        maxWaiters: 0,
+        pendingFetches: 0,
+      });
+    });
+
+    test("should reset the cumulative counters", async () => {
+      const valve = new BurstValve<FetchResult>(defaultFetcher);
+
+      await valve.fetch();
+      valve.resetStats();
+
+      const stats = valve.stats();
+      expect(stats).toMatchObject({
+        calls: 0,
+        fetches: 0,
+        coalesced: 0,
+        errors: 0,
+      });
+      expect(stats.latency.count).toStrictEqual(0);
+    });
+  });
+  describe("tracer", () => {
+    test("should open a span around each fetcher run", async () => {
+      const tracer = new InMemoryTracer();
+      const mockError = new Error(`Mock Error`);
+      const valve = new BurstValve<number, number>({
+        displayName: "Traced",
+        tracer,
+        fetch: async (id) => {
+          if (id === 2) {
+            throw mockError;
+          }
+          return (id as number) * 2;
+        },
+      });
+
+      await valve.fetch(1);
+      await valve.fetch(2).catch(() => undefined);
+
+      expect(tracer.spans.length).toStrictEqual(2);
+      expect(tracer.spans[0]).toMatchObject({
+        name: "BurstValve.fetch",
+        attributes: {
+          "burst_valve.display_name": "Traced",
+          "burst_valve.keys": ["1"],
+          "burst_valve.attempt": 1,
+        },
+        status: { code: 1 },
+        ended: true,
+      });
+      expect(tracer.spans[1]).toMatchObject({
+        status: { code: 2, message: `Mock Error` },
+        exceptions: [mockError],
+        ended: true,
+      });
+    });
+
+    test("should link every waiting caller to the span of the fetch it shares", async () => {
+      const tracer = new InMemoryTracer();
+      const valve = new BurstValve<number, number>({
+        tracer,
+        fetch: async (id) => {
+          await wait();
+          return (id as number) * 2;
+        },
+      });
+      const caller1 = tracer.startSpan("caller1");
+      const caller2 = tracer.startSpan("caller2");
+
+      await Promise.all([
+        valve.fetch(1, { span: caller1 }),
+        valve.fetch(1, { span: caller2 }),
+      ]);
+
+      const fetchSpan = tracer.spans[2];
+      expect(fetchSpan.name).toStrictEqual("BurstValve.fetch");
+      expect(fetchSpan.links).toEqual([{ context: caller1.spanContext() }]);
+      expect(caller1.links).toEqual([
+        {
+          context: fetchSpan.spanContext(),
+          attributes: { "burst_valve.display_name": "Burst Valve" },
+        },
+      ]);
+      expect(caller2.links).toEqual([
+        {
+          context: fetchSpan.spanContext(),
+          attributes: { "burst_valve.display_name": "Burst Valve" },
+        },
+      ]);
+    });
+
+    test("should record early writes as span events, linking batch callers once per span", async () => {
+      const tracer = new InMemoryTracer();
+      const valve = new BurstValve<number, number>({
+        tracer,
+        batch: async (ids, earlyWrite) => {
+          await wait();
+          ids.forEach((id) =>
+            earlyWrite(id, id === 3 ? new Error(`Not Found`) : id * 2)
+          );
+        },
+      });
+      const caller1 = tracer.startSpan("caller1");
+      const caller2 = tracer.startSpan("caller2");
+
+      await Promise.all([
+        valve.batch([1, 2, 3], { span: caller1 }),
+        valve.stream([2, 3, 4], async () => undefined, { span: caller2 }),
+      ]);
+
+      const [batch1, batch2] = tracer.spans.slice(2);
+      expect(batch1).toMatchObject({
+        name: "BurstValve.batch",
+        attributes: { "burst_valve.keys": ["1", "2", "3"] },
+        events: [
+          {
+            name: "earlyWrite",
+            attributes: { "burst_valve.key": "1", "burst_valve.error": false },
+          },
+          {
+            name: "earlyWrite",
+            attributes: { "burst_valve.key": "2", "burst_valve.error": false },
+          },
+          {
+            name: "earlyWrite",
+            attributes: { "burst_valve.key": "3", "burst_valve.error": true },
+          },
+        ],
+      });
+      expect(batch2.attributes["burst_valve.keys"]).toEqual(["4"]);
+      expect(caller1.links.map(({ context }) => context)).toEqual([
+        batch1.spanContext(),
+      ]);
+      expect(caller2.links.map(({ context }) => context)).toEqual([
+        batch1.spanContext(),
+        batch2.spanContext(),
+      ]);
+    });
+
+    test("should fall back to span events for caller spans without link support", async () => {
+      const tracer = new InMemoryTracer();
+      const valve = new BurstValve<number, number>({
+        tracer,
+        fetch: async (id) => (id as number) * 2,
+      });
+      const events: string[] = [];
+      const caller: Span = {
+        spanContext: () => ({ traceId: "trace", spanId: "span" }),
+        setAttribute: () => undefined,
+        addEvent: (name) => events.push(name),
+        recordException: () => undefined,
+        setStatus: () => undefined,
+        end: () => undefined,
+      };
+
+      await valve.fetch(1, { span: caller });
+      expect(events).toEqual(["burst_valve.link"]);
+    });
+
+    test("should keep fetching when the tracer throws, re-raising the error", async () => {
+      const raised: unknown[] = [];
+      const nextTick = process.nextTick.bind(process);
+      jest.spyOn(process, "nextTick").mockImplementation(((
+        callback: (...args: unknown[]) => void,
+        ...args: unknown[]
+      ) =>
+        nextTick(() => {
+          try {
+            callback(...args);
+          } catch (e) {
+            raised.push(e);
+          }
+        })) as typeof process.nextTick);
+
+      const tracer = new InMemoryTracer();
+      jest.spyOn(tracer, "startSpan").mockImplementation(() => {
+        throw new Error(`Tracer Error`);
+      });
+      const valve = new BurstValve<number, number>({
+        displayName: "Traced",
+        tracer,
+        fetch: async (id) => (id as number) * 2,
+      });
+
+      expect(await valve.fetch(1)).toStrictEqual(2);
+      expect(valve.isActive(1)).toStrictEqual(false);
+      await wait();
+      expect(raised).toEqual([new Error(`Tracer Error`)]);
+    });
+  });
+  describe("diagnostics_channel", () => {
+    const subscribe = () => {
+      const messages: Array<[string, unknown]> = [];
+      const unsubscribes = Object.values(DIAGNOSTICS_CHANNELS).map((name) => {
+        const channel = diagnostics_channel.channel(name);
+        const listener = (message: unknown) => messages.push([name, message]);
+        channel.subscribe(listener);
+        return () => channel.unsubscribe(listener);
+      });
+
+      return {
+        messages,
+        unsubscribe: () => unsubscribes.forEach((fn) => fn()),
+      };
+    };
+
+    test("should publish queue joins, fetch starts and fetch ends", async () => {
+      const { messages, unsubscribe } = subscribe();
+      const mockError = new Error(`Mock Error`);
+      const valve = new BurstValve<number, number>({
+        displayName: "Diagnostics",
+        fetch: async (id) => {
+          await wait();
+          if (id === 2) {
+            throw mockError;
+          }
+          return (id as number) * 2;
+        },
+      });
+
+      try {
+        await Promise.all([
+          valve.fetch(1),
+          valve.fetch(1),
+          valve.fetch(2).catch(() => undefined),
+        ]);
+      } finally {
+        unsubscribe();
+      }
+
+      expect(messages).toEqual([
+        [
+          "burst-valve:queue:join",
+          { displayName: "Diagnostics", key: 1, waiters: 1 },
+        ],
+        [
+          "burst-valve:fetch:start",
+          {
+            displayName: "Diagnostics",
+            keys: [1],
+            batch: false,
+            attempt: 1,
+            waiters: 1,
+          },
+        ],
+        [
+          "burst-valve:queue:join",
+          { displayName: "Diagnostics", key: 1, waiters: 2 },
+        ],
+        [
+          "burst-valve:queue:join",
+          { displayName: "Diagnostics", key: 2, waiters: 1 },
+        ],
+        [
+          "burst-valve:fetch:start",
+          {
+            displayName: "Diagnostics",
+            keys: [2],
+            batch: false,
+            attempt: 1,
+            waiters: 1,
+          },
+        ],
+        [
+          "burst-valve:fetch:end",
+          {
+            displayName: "Diagnostics",
+            key: 1,
+            waiters: 2,
+            duration: expect.any(Number),
+            result: 2,
+          },
+        ],
+        [
+          "burst-valve:fetch:end",
+          {
+            displayName: "Diagnostics",
+            key: 2,
+            waiters: 1,
+            duration: expect.any(Number),
+            error: mockError,
+          },
+        ],
+      ]);
+    });
+
+    test("should publish batch dispatches", async () => {
+      const { messages, unsubscribe } = subscribe();
+      const valve = new BurstValve<number, number>({
+        displayName: "Diagnostics",
+        maxBatchSize: 2,
+        batch: async (ids) => ids.map((id) => id * 2),
+      });
+
+      try {
+        await valve.batch([1, 2, 3]);
+      } finally {
+        unsubscribe();
+      }
+
+      expect(
+        messages.filter(([name]) => name === "burst-valve:batch:dispatch")
+      ).toEqual([
+        [
+          "burst-valve:batch:dispatch",
+          { displayName: "Diagnostics", keys: [1, 2, 3], chunks: 2 },
+        ],
+      ]);
+      expect(
+        messages
+          .filter(([name]) => name === "burst-valve:fetch:start")
+          .map(([, message]) => message)
+      ).toEqual([
+        {
+          displayName: "Diagnostics",
+          keys: [1, 2],
+          batch: true,
+          attempt: 1,
+          waiters: 2,
+        },
+        {
+          displayName: "Diagnostics",
+          keys: [3],
+          batch: true,
+          attempt: 1,
+          waiters: 1,
+        },
+      ]);
+    });
+  });
+  describe("keyFn", () => {
+    interface CustomerKey {
+      tenantId: string;
+      customerId: number;
+    }
+    const keyFn = ({ tenantId, customerId }: CustomerKey) =>
+      `${tenantId}:${customerId}`;
+
+    test("should coalesce fetches of equivalent object keys", async () => {
+      const received: CustomerKey[] = [];
+      const key = { tenantId: "a", customerId: 1 };
+      const valve = new BurstValve<string, CustomerKey>({
+        keyFn,
+        fetch: async (subqueue) => {
+          received.push(subqueue as CustomerKey);
+          await wait();
+          return keyFn(subqueue as CustomerKey);
+        },
+      });
+
+      const results = await Promise.all([
+        valve.fetch(key),
+        valve.fetch({ tenantId: "a", customerId: 1 }),
+        valve.fetch({ tenantId: "b", customerId: 1 }),
+      ]);
+      expect(results).toEqual(["a:1", "a:1", "b:1"]);
+      expect(received.length).toStrictEqual(2);
+      expect(received[0]).toBe(key);
+    });
+
+    test("should dedupe and coalesce batch keys, passing the original key objects", async () => {
+      const runs: CustomerKey[][] = [];
+      const key1 = { tenantId: "a", customerId: 1 };
+      const key2 = { tenantId: "a", customerId: 2 };
+      const valve = new BurstValve<string, CustomerKey>({
+        keyFn,
+        batch: async (keys) => {
+          runs.push(keys);
+          await wait();
+          return keys.map(keyFn);
+        },
+      });
+
+      const [run1, run2] = await Promise.all([
+        valve.batch([key1, { ...key1 }, key2]),
+        valve.batch([{ ...key2 }, { tenantId: "b", customerId: 1 }]),
+      ]);
+      expect(run1).toEqual(["a:1", "a:1", "a:2"]);
+      expect(run2).toEqual(["a:2", "b:1"]);
+      expect(runs.length).toStrictEqual(2);
+      expect(runs[0][0]).toBe(key1);
+      expect(runs[0][1]).toBe(key2);
+      expect(runs[1]).toEqual([{ tenantId: "b", customerId: 1 }]);
+    });
+
+    test("should match map results and early writes through the serialized key", async () => {
+      const valve = new BurstValve<string, CustomerKey>({
+        keyFn,
+        batch: async (keys, earlyWrite) => {
+          earlyWrite({ tenantId: "a", customerId: 1 }, "early");
+          return new Map(
+            keys.map((key) => [{ ...key }, keyFn(key)] as [CustomerKey, string])
+          );
+        },
+      });
+
+      expect(
+        await valve.batch([
+          { tenantId: "a", customerId: 1 },
+          { tenantId: "a", customerId: 2 },
+        ])
+      ).toEqual(["early", "a:2"]);
+    });
+
+    test("should retain results by the serialized key", async () => {
+      let runs = 0;
+      const valve = new BurstValve<string, CustomerKey>({
+        keyFn,
+        resultTtl: 1000,
+        fetch: async (subqueue) => {
+          runs++;
+          return keyFn(subqueue as CustomerKey);
+        },
+      });
+
+      await valve.fetch({ tenantId: "a", customerId: 1 });
+      expect(await valve.fetch({ tenantId: "a", customerId: 1 })).toStrictEqual(
+        "a:1"
+      );
+      expect(valve.isActive({ tenantId: "a", customerId: 1 })).toStrictEqual(
+        false
+      );
+      expect(runs).toStrictEqual(1);
+    });
+  });
+  describe("falsy subqueue keys", () => {
+    test("should treat ID 0 as its own subqueue rather than the global queue", async () => {
+      const received: Array<number | undefined> = [];
+      const valve = new BurstValve<string, number>({
+        fetch: async (id) => {
+          received.push(id);
+          await wait();
+          return `Result ${id}`;
+        },
+      });
+
+      const run1 = valve.fetch(0);
+      const run2 = valve.fetch();
+      const run3 = valve.fetch(0);
+      expect(valve.isActive(0)).toStrictEqual(true);
+      expect(valve.isActive()).toStrictEqual(true);
+
+      expect(await Promise.all([run1, run2, run3])).toEqual([
+        "Result 0",
+        "Result undefined",
+        "Result 0",
+      ]);
+      expect(received).toEqual([0, undefined]);
+      expect(valve.isActive(0)).toStrictEqual(false);
+    });
+
+    test("should handle empty string and false keys", async () => {
+      const received: Array<string | boolean | undefined> = [];
+      const valve = new BurstValve<string, string | boolean>({
+        fetch: async (id) => {
+          received.push(id);
+          await wait();
+          return `Result ${String(id)}`;
+        },
+      });
+
+      const runs = Promise.all([
+        valve.fetch(""),
+        valve.fetch(false),
+        valve.fetch(""),
+      ]);
+      expect(valve.isActive("")).toStrictEqual(true);
+      expect(valve.isActive(false)).toStrictEqual(true);
+      expect(valve.isActive()).toStrictEqual(false);
+
+      expect(await runs).toEqual(["Result ", "Result false", "Result "]);
+      expect(received).toEqual(["", false]);
+    });
+
+    test("should retain results for ID 0", async () => {
+      let runs = 0;
+      const valve = new BurstValve<number, number>({
+        resultTtl: 1000,
+        fetch: async (id) => {
+          runs++;
+          return id === undefined ? -1 : id * 2;
+        },
+      });
+
+      expect(await valve.fetch(0)).toStrictEqual(0);
+      expect(await valve.fetch(0)).toStrictEqual(0);
+      expect(await valve.fetch()).toStrictEqual(-1);
+      expect(runs).toStrictEqual(2);
+    });
+
+    test("should batch, stream and coalesce ID 0", async () => {
+      const runs: number[][] = [];
+      const streamed: Array<[number, number | Error]> = [];
+      const valve = new BurstValve<number, number>({
+        batch: async (ids) => {
+          runs.push([...ids]);
+          await wait();
+          return ids.map((id) => id + 100);
+        },
+      });
+
+      const [run1, run2] = await Promise.all([
+        valve.batch([0, 1]),
+        valve.fetch(0),
+        valve.stream([0, 2], async (id, result) => {
+          streamed.push([id, result]);
+        }),
+      ]);
+      expect(run1).toEqual([100, 101]);
+      expect(run2).toStrictEqual(100);
+      expect(streamed).toEqual([
+        [0, 100],
+        [2, 102],
+      ]);
+      expect(runs).toEqual([[0, 1], [2]]);
+    });
+  });
+  describe("iterate", () => {
+    test("should yield results in the order they become available", async () => {
+      const valve = new BurstValve<number, number>({
+        batch: async (_ids, earlyWrite) => {
+          await sleep(5);
+          earlyWrite(3, 6);
+          await sleep(5);
+          earlyWrite(1, 2);
+          earlyWrite(2, new Error(`Not Found`));
+        },
+      });
+
+      const results: Array<[number, number | Error]> = [];
+      for await (const entry of valve.iterate([1, 2, 3])) {
+        results.push(entry);
+      }
+      expect(results).toEqual([
+        [3, 6],
+        [1, 2],
+        [2, new Error(`Not Found`)],
+      ]);
+    });
+
+    test("should share active subqueues and buffer results while the consumer is busy", async () => {
+      const runs: number[][] = [];
+      const valve = new BurstValve<number, number>({
+        batch: async (ids) => {
+          runs.push([...ids]);
+          await wait();
+          return ids.map((id) => id * 2);
+        },
+      });
+
+      const batch = valve.batch([1, 2]);
+      const results: Array<[number, number | Error]> = [];
+      for await (const entry of valve.iterate([1, 2, 3])) {
+        results.push(entry);
+        await sleep(5);
+      }
+
+      expect(await batch).toEqual([2, 4]);
+      expect(results).toEqual([
+        [1, 2],
+        [2, 4],
+        [3, 6],
+      ]);
+      expect(runs).toEqual([[1, 2], [3]]);
+    });
+
+    test("should leave in flight subqueues when the consumer breaks early", async () => {
+      const signals: AbortSignal[] = [];
+      const valve = new BurstValve<number, number>({
+        batch: async (ids, earlyWrite, signal) => {
+          signals.push(signal);
+          earlyWrite(ids[0], ids[0] * 2);
+          await wait();
+          return ids.map((id) => id * 2);
+        },
+      });
+
+      for await (const [id, result] of valve.iterate([1, 2, 3])) {
+        expect([id, result]).toEqual([1, 2]);
+        break;
+      }
+
+      expect(valve.isActive(2)).toStrictEqual(false);
+      expect(valve.isActive(3)).toStrictEqual(false);
+      expect(signals[0].aborted).toStrictEqual(true);
+    });
+
+    test("should keep the subqueues running for other waiters when breaking early", async () => {
+      const signals: AbortSignal[] = [];
+      const valve = new BurstValve<number, number>({
+        batch: async (ids, _earlyWrite, signal) => {
+          signals.push(signal);
+          await wait();
+          return ids.map((id) => id * 2);
+        },
+      });
+
+      const batch = valve.batch([1, 2]);
+      for await (const entry of valve.iterate([1, 2])) {
+        expect(entry).toEqual([1, 2]);
+        break;
+      }
+
+      expect(await batch).toEqual([2, 4]);
+      expect(signals[0].aborted).toStrictEqual(false);
+    });
+
+    test("should throw the abort reason when the caller aborts", async () => {
+      const controller = new AbortController();
+      const valve = new BurstValve<number, number>({
+        batch: async (ids) => {
+          await wait();
+          return ids.map((id) => id * 2);
+        },
+      });
+
+      const iterating = (async () => {
+        for await (const entry of valve.iterate([1, 2], {
+          signal: controller.signal,
+        })) {
+          expect(entry).toBeUndefined();
+        }
+      })();
+      controller.abort(new Error(`Aborted`));
+
+      await expect(iterating).rejects.toThrow(`Aborted`);
+      expect(valve.isActive(1)).toStrictEqual(false);
+    });
+  });
+  describe("ordered stream", () => {
+    test("should deliver results in the order of the identifiers passed", async () => {
+      const delivered: Array<[number, number | Error]> = [];
+      const valve = new BurstValve<number, number>({
+        batch: async (_ids, earlyWrite) => {
+          earlyWrite(3, 6);
+          await sleep(2);
+          earlyWrite(2, new Error(`Not Found`));
+          await sleep(2);
+          earlyWrite(1, 2);
+        },
+      });
+
+      await valve.stream(
+        [1, 2, 3, 2],
+        async (id, result) => {
+          delivered.push([id, result]);
+        },
+        { ordered: true }
+      );
+      expect(delivered).toEqual([
+        [1, 2],
+        [2, new Error(`Not Found`)],
+        [3, 6],
+      ]);
+    });
+
+    test("should fire callbacks as soon as the head of the line is ready", async () => {
+      const delivered: number[] = [];
+      let release: () => void = () => undefined;
+      const valve = new BurstValve<number, number>({
+        batch: async (_ids, earlyWrite) => {
+          earlyWrite(1, 2);
+          await new Promise<void>((resolve) => (release = resolve));
+          earlyWrite(2, 4);
+        },
+      });
+
+      const streaming = valve.stream(
+        [1, 2],
+        async (id) => {
+          delivered.push(id);
+        },
+        { ordered: true }
+      );
+
+      await wait();
+      expect(delivered).toEqual([1]);
+
+      release();
+      await streaming;
+      expect(delivered).toEqual([1, 2]);
+    });
+
+    test("should wait on each callback before delivering the next result", async () => {
+      const events: string[] = [];
+      const valve = new BurstValve<number, number>({
+        batch: async (ids) => ids.map((id) => id * 2),
+      });
+
+      await valve.stream(
+        [1, 2],
+        async (id) => {
+          events.push(`start ${id}`);
+          await sleep(2);
+          events.push(`end ${id}`);
+        },
+        { ordered: true }
+      );
+      expect(events).toEqual(["start 1", "end 1", "start 2", "end 2"]);
+    });
+
+    test("should mix retained and fetched results in order", async () => {
+      const delivered: number[] = [];
+      const valve = new BurstValve<number, number>({
+        resultTtl: 1000,
+        batch: async (ids) => {
+          await wait();
+          return ids.map((id) => id * 2);
+        },
+      });
+
+      await valve.batch([2]);
+      await valve.stream(
+        [1, 2, 3],
+        async (id) => {
+          delivered.push(id);
+        },
+        { ordered: true }
+      );
+      expect(delivered).toEqual([1, 2, 3]);
+    });
+
+    test("should iterate in the order of the identifiers passed", async () => {
+      const valve = new BurstValve<number, number>({
+        batch: async (_ids, earlyWrite) => {
+          earlyWrite(2, 4);
+          await sleep(2);
+          earlyWrite(1, 2);
+        },
+      });
+
+      const results: Array<[number, number | Error]> = [];
+      for await (const entry of valve.iterate([1, 2], { ordered: true })) {
+        results.push(entry);
+      }
+      expect(results).toEqual([
+        [1, 2],
+        [2, 4],
+      ]);
+    });
+  });
+
+  describe("readable adapters", () => {
+    test("should expose results as an object mode Readable", async () => {
+      const valve = new BurstValve<number, number>({
+        batch: async (_ids, earlyWrite) => {
+          await wait();
+          earlyWrite(2, new Error(`Not Found`));
+          earlyWrite(1, 2);
+        },
+      });
+
+      const results: Array<[number, number | Error]> = [];
+      for await (const entry of valve.toReadable([1, 2])) {
+        results.push(entry);
+      }
+      expect(results).toEqual([
+        [2, new Error(`Not Found`)],
+        [1, 2],
+      ]);
+    });
+
+    test("should serialize results as NDJSON", async () => {
+      const valve = new BurstValve<number, number>({
+        batch: async (ids) => {
+          await wait();
+          return ids.map((id) => (id > 2 ? new Error(`Not Found`) : id * 2));
+        },
+      });
+
+      let body = "";
+      for await (const chunk of valve.toReadable([1, 2, 3], {
+        ndjson: true,
+        ordered: true,
+      })) {
+        body += chunk.toString();
+      }
+      expect(body).toStrictEqual(
+        `{"key":1,"result":2}\n` +
+          `{"key":2,"result":4}\n` +
+          `{"key":3,"error":{"name":"Error","message":"Not Found"}}\n`
+      );
+    });
+
+    test("should detach from pending subqueues when the Readable is destroyed", async () => {
+      const signals: AbortSignal[] = [];
+      const valve = new BurstValve<number, number>({
+        batch: async (ids, earlyWrite, signal) => {
+          signals.push(signal);
+          earlyWrite(ids[0], ids[0] * 2);
+          await wait();
+          return ids.map((id) => id * 2);
+        },
+      });
+
+      const readable = valve.toReadable([1, 2, 3]);
+      for await (const entry of readable) {
+        expect(entry).toEqual([1, 2]);
+        break;
+      }
+      await sleep(1);
+
+      expect(readable.destroyed).toStrictEqual(true);
+      expect(valve.isActive(2)).toStrictEqual(false);
+      expect(signals[0].aborted).toStrictEqual(true);
+    });
+
+    test("should destroy the Readable when the caller signal is aborted", async () => {
+      const controller = new AbortController();
+      const valve = new BurstValve<number, number>({
+        batch: async (ids) => {
+          await wait();
+          return ids.map((id) => id * 2);
+        },
+      });
+
+      const readable = valve.toReadable([1], { signal: controller.signal });
+      const results = (async () => {
+        for await (const entry of readable) {
+          return entry;
+        }
+      })();
+      controller.abort(new Error(`Aborted`));
+
+      await expect(results).rejects.toThrow(`Aborted`);
+      expect(valve.isActive(1)).toStrictEqual(false);
+    });
+
+    test("should only pull results from a ReadableStream when asked", async () => {
+      const valve = new BurstValve<number, number>({
+        batch: async (ids) => {
+          await wait();
+          return ids.map((id) => id * 2);
+        },
+      });
+
+      const reader = valve
+        .toReadableStream([1, 2], { ordered: true })
+        .getReader();
+      expect(await reader.read()).toEqual({ done: false, value: [1, 2] });
+      expect(await reader.read()).toEqual({ done: false, value: [2, 4] });
+      expect(await reader.read()).toEqual({ done: true, value: undefined });
+    });
+
+    test("should encode NDJSON bytes in a ReadableStream", async () => {
+      const valve = new BurstValve<number, number>({
+        batch: async (ids) => ids.map((id) => id * 2),
+      });
+
+      const decoder = new TextDecoder();
+      let body = "";
+      for await (const chunk of valve.toReadableStream([1], { ndjson: true })) {
+        body += decoder.decode(chunk);
+      }
+      expect(body).toStrictEqual(`{"key":1,"result":2}\n`);
+    });
+
+    test("should detach from pending subqueues when the ReadableStream is cancelled", async () => {
+      const signals: AbortSignal[] = [];
+      const valve = new BurstValve<number, number>({
+        batch: async (ids, earlyWrite, signal) => {
+          signals.push(signal);
+          earlyWrite(ids[0], ids[0] * 2);
+          await wait();
+          return ids.map((id) => id * 2);
+        },
+      });
+
+      const reader = valve.toReadableStream([1, 2, 3]).getReader();
+      expect(await reader.read()).toEqual({ done: false, value: [1, 2] });
+      await reader.cancel();
+      await sleep(1);
+
+      expect(valve.isActive(2)).toStrictEqual(false);
+      expect(valve.isActive(3)).toStrictEqual(false);
+      expect(signals[0].aborted).toStrictEqual(true);
+    });
+  });
+
+  describe("close", () => {
+    test("should reject new fetches while letting in-flight queues drain", async () => {
+      let ran = 0;
+      const valve = new BurstValve<number, string>(async () => {
+        ran++;
+        await wait();
+        return 25;
+      });
+
+      const run1 = valve.fetch("a");
+      expect(valve.isClosed).toStrictEqual(false);
+
+      let drained = false;
+      const closing = valve.close().then(() => (drained = true));
+      expect(valve.isClosed).toStrictEqual(true);
+
+      await expect(valve.fetch("a")).rejects.toThrow(ValveClosedError);
+      await expect(valve.fetch("b")).rejects.toThrow(
+        `Valve is closed for Burst Valve`
+      );
+      expect(drained).toStrictEqual(false);
+      expect(valve.isActive("a")).toStrictEqual(true);
+
+      expect(await run1).toStrictEqual(25);
+      await closing;
+      expect(drained).toStrictEqual(true);
+      expect(ran).toStrictEqual(1);
+    });
+
+    test("should resolve right away when no queues are active", async () => {
+      const valve = new BurstValve<FetchResult>(defaultFetcher);
+
+      await valve.close();
+      await valve.close();
+      expect(valve.isClosed).toStrictEqual(true);
+      await expect(valve.fetch()).rejects.toThrow(ValveClosedError);
+    });
+
+    test("should drain queues once every waiter has abandoned them", async () => {
+      const valve = new BurstValve<number, string>(async () => {
+        await sleep(50);
+        return 25;
+      });
+      const controller = new AbortController();
+
+      const run = valve.fetch("a", { signal: controller.signal });
+      const closing = valve.close();
+      controller.abort(new Error(`Aborted`));
+
+      await expect(run).rejects.toThrow(`Aborted`);
+      await closing;
+      expect(valve.isActive("a")).toStrictEqual(false);
+    });
+
+    test("should reject new batch, stream and iterate calls", async () => {
+      const valve = new BurstValve<number, number>({
+        batch: async (ids) => ids.map((id) => id * 2),
+      });
+      await valve.close();
+
+      await expect(valve.batch([1])).rejects.toThrow(ValveClosedError);
+      await expect(valve.unsafeBatch([1])).rejects.toThrow(ValveClosedError);
+      await expect(valve.fetch(1)).rejects.toThrow(ValveClosedError);
+      await expect(valve.stream([1], async () => undefined)).rejects.toThrow(
+        ValveClosedError
+      );
+      await expect(valve.iterate([1]).next()).rejects.toThrow(ValveClosedError);
+    });
+
+    test("should drain subqueues waiting on the batch window", async () => {
+      const valve = new BurstValve<number, number>({
+        batchWindow: 10,
+        batch: async (ids) => ids.map((id) => id * 2),
+      });
+
+      const run = valve.batch([1, 2]);
+      await valve.close();
+      expect(await run).toEqual([2, 4]);
+    });
+
+    test("should reject every waiter right away when forced", async () => {
+      const signals: AbortSignal[] = [];
+      const valve = new BurstValve<number, string>(async (_id, signal) => {
+        signals.push(signal);
+        await sleep(100);
+        return 25;
+      });
+
+      const runs = [valve.fetch("a"), valve.fetch("a"), valve.fetch("b")];
+      const startedAt = Date.now();
+      await valve.close({ force: true });
+
+      for (const run of runs) {
+        await expect(run).rejects.toThrow(ValveClosedError);
+      }
+      expect(Date.now() - startedAt).toBeLessThan(50);
+      expect(signals.map((signal) => signal.aborted)).toEqual([true, true]);
+      expect(signals[0].reason).toBeInstanceOf(ValveClosedError);
+      expect(valve.stats().activeQueues).toStrictEqual(0);
+    });
+
+    test("should stop waiting on the batch fetcher when forced", async () => {
+      const valve = new BurstValve<number, number>({
+        batch: async (ids) => {
+          await sleep(100);
+          return ids.map((id) => id * 2);
+        },
+      });
+
+      const writes: Array<[number, number | Error]> = [];
+      const batching = valve.batch([1, 2]);
+      const unsafe = valve.unsafeBatch([3]);
+      const streaming = valve.stream([4], async (id, result) => {
+        writes.push([id, result]);
+      });
+      const startedAt = Date.now();
+      await valve.close({ force: true });
+
+      const results = await batching;
+      expect(results[0]).toBeInstanceOf(ValveClosedError);
+      expect(results[1]).toBeInstanceOf(ValveClosedError);
+      await expect(unsafe).rejects.toThrow(ValveClosedError);
+      await streaming;
+      expect(writes).toEqual([[4, expect.any(ValveClosedError)]]);
+      expect(Date.now() - startedAt).toBeLessThan(50);
+    });
+
+    test("should resolve a graceful close once forced", async () => {
+      const valve = new BurstValve<number, string>(async () => {
+        await sleep(100);
+        return 25;
+      });
+
+      const run = valve.fetch("a");
+      const closing = valve.close();
+      expect(valve.close({ force: true })).toBe(closing);
+
+      await closing;
+      await expect(run).rejects.toThrow(ValveClosedError);
+    });
+  });
 });
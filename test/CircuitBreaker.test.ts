@@ -0,0 +1,106 @@
+import { CircuitBreaker } from "../src/CircuitBreaker";
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+jest.setTimeout(250);
+
+describe("CircuitBreaker", () => {
+  const mockError = new Error(`Mock Error`);
+
+  test("should start closed", () => {
+    const circuit = new CircuitBreaker({});
+    expect(circuit.state).toStrictEqual("closed");
+    expect(circuit.healthy).toStrictEqual(true);
+    expect(circuit.tryAcquire({})).toStrictEqual(true);
+  });
+
+  test("should trip after 5 consecutive failures by default", () => {
+    const circuit = new CircuitBreaker({});
+
+    for (let i = 0; i < 4; i++) {
+      circuit.recordFailure(mockError);
+    }
+    circuit.recordSuccess();
+    for (let i = 0; i < 4; i++) {
+      circuit.recordFailure(mockError);
+    }
+    expect(circuit.state).toStrictEqual("closed");
+    expect(circuit.healthy).toStrictEqual(false);
+
+    circuit.recordFailure(mockError);
+    expect(circuit.state).toStrictEqual("open");
+    expect(circuit.tryAcquire({})).toStrictEqual(false);
+  });
+
+  test("should trip once the failure rate passes the threshold", () => {
+    const circuit = new CircuitBreaker({
+      failureRate: 0.5,
+      windowSize: 4,
+      minimumRequests: 4,
+    });
+
+    circuit.recordFailure(mockError);
+    circuit.recordFailure(mockError);
+    circuit.recordFailure(mockError);
+    expect(circuit.state).toStrictEqual("closed");
+
+    circuit.recordSuccess();
+    expect(circuit.state).toStrictEqual("open");
+  });
+
+  test("should only count errors that pass the failure predicate", () => {
+    const circuit = new CircuitBreaker({
+      consecutiveFailures: 1,
+      isFailure: (error) => error.message !== "Not Found",
+    });
+
+    circuit.recordFailure(new Error(`Not Found`));
+    expect(circuit.state).toStrictEqual("closed");
+
+    circuit.recordFailure(new Error(`Connection Reset`));
+    expect(circuit.state).toStrictEqual("open");
+  });
+
+  test("should let a single probe through once the cooldown has passed", async () => {
+    const circuit = new CircuitBreaker({ consecutiveFailures: 1, cooldown: 5 });
+    const probe = {};
+
+    circuit.recordFailure(mockError);
+    expect(circuit.tryAcquire(probe)).toStrictEqual(false);
+
+    await sleep(10);
+    expect(circuit.state).toStrictEqual("half-open");
+    expect(circuit.tryAcquire(probe)).toStrictEqual(true);
+    expect(circuit.tryAcquire(probe)).toStrictEqual(true);
+    expect(circuit.tryAcquire({})).toStrictEqual(false);
+
+    circuit.recordSuccess();
+    expect(circuit.state).toStrictEqual("closed");
+    expect(circuit.tryAcquire({})).toStrictEqual(true);
+  });
+
+  test("should reopen the circuit when the probe fails", async () => {
+    const circuit = new CircuitBreaker({ consecutiveFailures: 1, cooldown: 5 });
+
+    circuit.recordFailure(mockError);
+    await sleep(10);
+    expect(circuit.tryAcquire({})).toStrictEqual(true);
+
+    circuit.recordFailure(mockError);
+    expect(circuit.state).toStrictEqual("open");
+    expect(circuit.tryAcquire({})).toStrictEqual(false);
+  });
+
+  test("should let another probe through once the previous one is released", async () => {
+    const circuit = new CircuitBreaker({ consecutiveFailures: 1, cooldown: 5 });
+    const probe = {};
+
+    circuit.recordFailure(mockError);
+    await sleep(10);
+    expect(circuit.tryAcquire(probe)).toStrictEqual(true);
+    expect(circuit.tryAcquire({})).toStrictEqual(false);
+
+    circuit.release(probe);
+    expect(circuit.tryAcquire({})).toStrictEqual(true);
+  });
+});
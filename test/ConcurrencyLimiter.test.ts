@@ -0,0 +1,74 @@
+import { ConcurrencyLimiter } from "../src/ConcurrencyLimiter";
+
+jest.setTimeout(250);
+
+describe("ConcurrencyLimiter", () => {
+  test("should hand out slots up to the concurrency limit", async () => {
+    const limiter = new ConcurrencyLimiter(2);
+
+    expect(await limiter.acquire()).toStrictEqual(true);
+    expect(await limiter.acquire()).toStrictEqual(true);
+    expect(limiter.active).toStrictEqual(2);
+    expect(limiter.queued).toStrictEqual(0);
+
+    let acquired = false;
+    limiter.acquire().then((value) => (acquired = value));
+    await Promise.resolve();
+    expect(acquired).toStrictEqual(false);
+    expect(limiter.queued).toStrictEqual(1);
+  });
+
+  test("should hand released slots to pending invocations in order", async () => {
+    const limiter = new ConcurrencyLimiter(1);
+    const order: number[] = [];
+
+    await limiter.acquire();
+    const pending = [1, 2, 3].map((id) =>
+      limiter.acquire().then(() => {
+        order.push(id);
+        limiter.release();
+      })
+    );
+
+    limiter.release();
+    await Promise.all(pending);
+    expect(order).toEqual([1, 2, 3]);
+    expect(limiter.active).toStrictEqual(0);
+  });
+
+  test("should leave the pending queue when the signal is aborted", async () => {
+    const limiter = new ConcurrencyLimiter(1);
+    const controller = new AbortController();
+
+    await limiter.acquire();
+    const pending = limiter.acquire(controller.signal);
+    expect(limiter.queued).toStrictEqual(1);
+
+    controller.abort();
+    expect(await pending).toStrictEqual(false);
+    expect(limiter.queued).toStrictEqual(0);
+    expect(await limiter.acquire(controller.signal)).toStrictEqual(false);
+  });
+
+  test("should be saturated once the pending queue is full", async () => {
+    const limiter = new ConcurrencyLimiter(1, 1);
+
+    await limiter.acquire();
+    expect(limiter.saturated).toStrictEqual(false);
+
+    limiter.acquire();
+    expect(limiter.saturated).toStrictEqual(true);
+
+    limiter.release();
+    expect(limiter.saturated).toStrictEqual(false);
+  });
+
+  test("should never be saturated without a pending limit", async () => {
+    const limiter = new ConcurrencyLimiter(1);
+
+    await limiter.acquire();
+    limiter.acquire();
+    limiter.acquire();
+    expect(limiter.saturated).toStrictEqual(false);
+  });
+});
@@ -0,0 +1,42 @@
+import { Histogram } from "../src/Histogram";
+
+describe("Histogram", () => {
+  test("should start empty", () => {
+    expect(new Histogram([1, 5]).snapshot()).toEqual({
+      count: 0,
+      sum: 0,
+      min: 0,
+      max: 0,
+      buckets: [
+        { le: 1, count: 0 },
+        { le: 5, count: 0 },
+        { le: Infinity, count: 0 },
+      ],
+    });
+  });
+
+  test("should count observations into cumulative buckets", () => {
+    const histogram = new Histogram([1, 5]);
+    [0, 1, 3, 5, 8].forEach((value) => histogram.observe(value));
+
+    expect(histogram.snapshot()).toEqual({
+      count: 5,
+      sum: 17,
+      min: 0,
+      max: 8,
+      buckets: [
+        { le: 1, count: 2 },
+        { le: 5, count: 4 },
+        { le: Infinity, count: 5 },
+      ],
+    });
+  });
+
+  test("should clear every observation on reset", () => {
+    const histogram = new Histogram([1, 5]);
+    histogram.observe(3);
+    histogram.reset();
+
+    expect(histogram.snapshot()).toEqual(new Histogram([1, 5]).snapshot());
+  });
+});
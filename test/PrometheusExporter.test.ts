@@ -0,0 +1,115 @@
+import { createServer, get } from "http";
+import { AddressInfo } from "net";
+import {
+  BurstValve,
+  PROMETHEUS_CONTENT_TYPE,
+  PrometheusExporter,
+} from "../src";
+
+jest.setTimeout(250);
+
+describe("PrometheusExporter", () => {
+  const createValve = (displayName: string) =>
+    new BurstValve<number, number>({
+      displayName,
+      fetch: async (id) => (id as number) * 2,
+    });
+
+  test("should render counters, histograms and gauges labelled by display name", async () => {
+    const valve = createValve("Customers");
+    const exporter = new PrometheusExporter([valve]);
+
+    await Promise.all([valve.fetch(1), valve.fetch(1), valve.fetch(2)]);
+
+    const metrics = exporter.render();
+    expect(metrics).toContain(
+      `# TYPE burst_valve_fetches_total counter\nburst_valve_fetches_total{display_name="Customers"} 2\n`
+    );
+    expect(metrics).toContain(
+      `burst_valve_calls_total{display_name="Customers"} 3\n`
+    );
+    expect(metrics).toContain(
+      `burst_valve_coalesced_total{display_name="Customers"} 1\n`
+    );
+    expect(metrics).toContain(
+      `burst_valve_errors_total{display_name="Customers"} 0\n`
+    );
+    expect(metrics).toContain(
+      `# TYPE burst_valve_fetch_duration_seconds histogram\n`
+    );
+    expect(metrics).toContain(
+      `burst_valve_fetch_duration_seconds_bucket{display_name="Customers",le="0.005"} 2\n`
+    );
+    expect(metrics).toContain(
+      `burst_valve_fetch_duration_seconds_bucket{display_name="Customers",le="+Inf"} 2\n`
+    );
+    expect(metrics).toContain(
+      `burst_valve_fetch_duration_seconds_count{display_name="Customers"} 2\n`
+    );
+    expect(metrics).toContain(
+      `burst_valve_batch_size_bucket{display_name="Customers",le="+Inf"} 0\n`
+    );
+    expect(metrics).toContain(
+      `# TYPE burst_valve_active_queues gauge\nburst_valve_active_queues{display_name="Customers"} 0\n`
+    );
+  });
+
+  test("should render every registered valve, escaping display names", () => {
+    const valve1 = createValve("Customers");
+    const valve2 = createValve(`Say "hi"\\bye`);
+    const exporter = new PrometheusExporter([valve1], "app");
+
+    exporter.register(valve2);
+    expect(exporter.render()).toContain(
+      `# HELP app_calls_total Number of fetch, batch, unsafeBatch and stream calls\n# TYPE app_calls_total counter\napp_calls_total{display_name="Customers"} 0\napp_calls_total{display_name="Say \\"hi\\"\\\\bye"} 0\n`
+    );
+
+    exporter.unregister(valve1);
+    expect(exporter.render()).not.toContain(`Customers`);
+  });
+
+  test("should sum valves sharing a display name into a single series", async () => {
+    const valve1 = createValve("Customers");
+    const valve2 = createValve("Customers");
+    const exporter = new PrometheusExporter([valve1, valve2]);
+
+    await Promise.all([valve1.fetch(1), valve2.fetch(1), valve2.fetch(2)]);
+    const body = exporter.render();
+    expect(body).toContain(
+      `# TYPE burst_valve_fetches_total counter\nburst_valve_fetches_total{display_name="Customers"} 3\n# HELP`
+    );
+    expect(body).toContain(
+      `burst_valve_fetch_duration_seconds_bucket{display_name="Customers",le="+Inf"} 3\n`
+    );
+    expect(body).toContain(
+      `burst_valve_fetch_duration_seconds_count{display_name="Customers"} 3\n`
+    );
+  });
+
+  test("should serve the metrics from a node http server", async () => {
+    const valve = createValve("Customers");
+    const exporter = new PrometheusExporter([valve]);
+    const server = createServer(exporter.handler);
+
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    try {
+      const { port } = server.address() as AddressInfo;
+      const [contentType, body] = await new Promise<[string, string]>(
+        (resolve, reject) => {
+          get(`http://127.0.0.1:${port}/metrics`, (res) => {
+            let data = "";
+            res.on("data", (chunk) => (data += chunk));
+            res.on("end", () =>
+              resolve([res.headers["content-type"] as string, data])
+            );
+          }).on("error", reject);
+        }
+      );
+
+      expect(contentType).toStrictEqual(PROMETHEUS_CONTENT_TYPE);
+      expect(body).toStrictEqual(exporter.render());
+    } finally {
+      await new Promise((resolve) => server.close(resolve));
+    }
+  });
+});
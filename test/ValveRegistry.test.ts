@@ -0,0 +1,156 @@
+import { setFlagsFromString } from "v8";
+import { runInNewContext } from "vm";
+import {
+  BurstValve,
+  defaultRegistry,
+  ValveClosedError,
+  ValveRegistry,
+} from "../src";
+
+jest.setTimeout(250);
+
+const wait = (ms = 10) => new Promise((resolve) => setTimeout(resolve, ms));
+
+setFlagsFromString("--expose-gc");
+const gc: () => void = runInNewContext("gc");
+
+describe("ValveRegistry", () => {
+  const createValve = (
+    registry: ValveRegistry,
+    displayName: string,
+    fetch = async (id: number | undefined) => (id as number) * 2
+  ) => new BurstValve<number, number>({ displayName, registry, fetch });
+
+  test("should register valves by display name", () => {
+    const registry = new ValveRegistry();
+    const customers = createValve(registry, "Customers");
+    const orders = createValve(registry, "Orders");
+    const replica = createValve(registry, "Customers");
+
+    expect(registry.get("Customers")).toEqual([customers, replica]);
+    expect(registry.get("Products")).toEqual([]);
+    expect(registry.list()).toEqual([customers, replica, orders]);
+    expect(registry.size).toStrictEqual(3);
+
+    registry.unregister(customers);
+    expect(registry.get("Customers")).toEqual([replica]);
+    registry.unregister(replica);
+    expect(registry.list()).toEqual([orders]);
+  });
+
+  test("should register with the default registry", () => {
+    const valve = new BurstValve<number, number>({
+      displayName: "Default Registry",
+      registry: true,
+      fetch: async () => 1,
+    });
+
+    expect(defaultRegistry.get("Default Registry")).toEqual([valve]);
+    defaultRegistry.unregister(valve);
+    expect(defaultRegistry.get("Default Registry")).toEqual([]);
+  });
+
+  test("should ignore duplicate registrations", () => {
+    const registry = new ValveRegistry();
+    const valve = createValve(registry, "Customers");
+    registry.register(valve);
+
+    expect(registry.list()).toEqual([valve]);
+  });
+
+  test("should aggregate stats across every valve", async () => {
+    const registry = new ValveRegistry();
+    const customers = createValve(registry, "Customers");
+    const orders = createValve(registry, "Orders", async (id) => {
+      await wait();
+      return id as number;
+    });
+
+    await Promise.all([customers.fetch(1), customers.fetch(2)]);
+    const pending = [orders.fetch(1), orders.fetch(1), orders.fetch(1)];
+
+    expect(registry.stats().map((stat) => stat.displayName)).toEqual([
+      "Customers",
+      "Orders",
+    ]);
+    expect(registry.aggregate()).toEqual({
+      valves: 2,
+      calls: 5,
+      fetches: 3,
+      coalesced: 2,
+      errors: 0,
+      activeQueues: 1,
+      waiters: 3,
+      maxWaiters: 3,
+      pendingFetches: 0,
+    });
+    await Promise.all(pending);
+  });
+
+  test("should find valves with queues in flight for longer than the threshold", async () => {
+    const registry = new ValveRegistry();
+    let release: () => void = () => undefined;
+    const stuck = createValve(registry, "Stuck", async (id) => {
+      await new Promise<void>((resolve) => (release = resolve));
+      return id as number;
+    });
+    const healthy = createValve(registry, "Healthy");
+
+    const fetching = stuck.fetch(1);
+    await healthy.fetch(1);
+    expect(registry.findStuck(20)).toEqual([]);
+
+    await wait(25);
+    const [found] = registry.findStuck(20);
+    expect(found.valve).toBe(stuck);
+    expect(found.queues).toEqual([
+      { subqueue: 1, waiters: 1, startedAt: expect.any(Number) },
+    ]);
+
+    release();
+    await fetching;
+    expect(registry.findStuck(20)).toEqual([]);
+  });
+
+  test("should close every valve that can be closed", async () => {
+    const registry = new ValveRegistry();
+    const close = jest.fn(async () => undefined);
+    registry.register({
+      displayName: "Closable",
+      stats: () => createValve(new ValveRegistry(), "Closable").stats(),
+      inFlight: () => [],
+      close,
+    });
+    const customers = createValve(registry, "Customers");
+
+    await registry.closeAll();
+    expect(close).toHaveBeenCalledTimes(1);
+    expect(customers.isClosed).toStrictEqual(true);
+  });
+
+  test("should pass the force option to every valve", async () => {
+    const registry = new ValveRegistry();
+    const stuck = createValve(
+      registry,
+      "Stuck",
+      () => new Promise<number>(() => undefined)
+    );
+
+    const fetching = stuck.fetch(1);
+    await registry.closeAll({ force: true });
+    await expect(fetching).rejects.toThrow(ValveClosedError);
+  });
+
+  test("should not keep unused valves from being garbage collected", async () => {
+    const registry = new ValveRegistry();
+    const kept = createValve(registry, "Kept");
+    (() => createValve(registry, "Dropped"))();
+
+    // Weak references are held until the current job completes
+    await wait(1);
+    gc();
+
+    expect(registry.list()).toEqual([kept]);
+    expect(registry.get("Dropped")).toEqual([]);
+  }, 2000);
+});
@@ -0,0 +1,406 @@
+import { EventEmitter } from "events";
+import {
+  BurstValve,
+  ClusterChannel,
+  ClusterChannelParams,
+  ClusterPrimary,
+  ClusterWorker,
+} from "../src";
+
+jest.setTimeout(250);
+
+const wait = (ms = 10) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * In memory cluster passing JSON serialized messages between workers and the primary
+ */
+class FakeCluster extends EventEmitter {
+  public readonly workers: Array<
+    ClusterWorker & { process: EventEmitter & { send(m: unknown): boolean } }
+  > = [];
+
+  public fork(params?: ClusterChannelParams) {
+    const id = this.workers.length + 1;
+    let connected = true;
+    const workerProcess = Object.assign(new EventEmitter(), {
+      send: (message: unknown) => {
+        const copy = JSON.parse(JSON.stringify(message));
+        setImmediate(() => connected && this.emit("message", worker, copy));
+        return true;
+      },
+    });
+    const worker = {
+      id,
+      process: workerProcess,
+      send: (message: unknown) => {
+        const copy = JSON.parse(JSON.stringify(message));
+        setImmediate(() => connected && workerProcess.emit("message", copy));
+        return true;
+      },
+      isConnected: () => connected,
+      kill: () => {
+        connected = false;
+        setImmediate(() => this.emit("exit", worker));
+      },
+    };
+    this.workers.push(worker);
+    return { worker, channel: new ClusterChannel(workerProcess, params) };
+  }
+}
+
+describe("cluster", () => {
+  let fakeCluster: FakeCluster;
+  let primary: ClusterPrimary;
+
+  // Load the source maps of stack traces once, outside of the timed tests
+  beforeAll(
+    () =>
+      new BurstValve<number>(async () => {
+        throw new Error(`Warm Up`);
+      })
+        .fetch()
+        .catch((e: Error) => e.stack),
+    2000
+  );
+
+  beforeEach(() => {
+    fakeCluster = new FakeCluster();
+    primary = new ClusterPrimary(fakeCluster);
+  });
+
+  afterEach(() => {
+    primary.close();
+  });
+
+  test("should only run the fetcher in the first worker to claim a key", async () => {
+    const runs: number[] = [];
+    const createValve = (workerId: number, channel: ClusterChannel) =>
+      new BurstValve<number, number>({
+        displayName: "Customers",
+        cluster: channel,
+        fetch: async (id) => {
+          runs.push(workerId);
+          await wait();
+          return (id as number) * 2;
+        },
+      });
+
+    const valves = [1, 2, 3]
+      .map(() => fakeCluster.fork())
+      .map(({ worker, channel }) => createValve(worker.id, channel));
+    expect(await Promise.all(valves.map((valve) => valve.fetch(5)))).toEqual([
+      10, 10, 10,
+    ]);
+    expect(runs).toEqual([1]);
+    expect(primary.active).toStrictEqual(0);
+  });
+
+  test("should relay serialized errors to the other workers", async () => {
+    const createValve = (channel: ClusterChannel) =>
+      new BurstValve<number, number>({
+        displayName: "Customers",
+        cluster: channel,
+        fetch: async () => {
+          await wait();
+          throw new TypeError(`Failed Fetch`);
+        },
+      });
+
+    const [leader, follower] = [fakeCluster.fork(), fakeCluster.fork()].map(
+      ({ channel }) => createValve(channel)
+    );
+    const results = await Promise.allSettled([
+      leader.fetch(1),
+      follower.fetch(1),
+    ]);
+    expect(results).toEqual([
+      { status: "rejected", reason: new Error(`Failed Fetch`) },
+      { status: "rejected", reason: new Error(`Failed Fetch`) },
+    ]);
+    expect((results[1] as PromiseRejectedResult).reason.name).toStrictEqual(
+      "TypeError"
+    );
+  });
+
+  test("should only fail the other workers on results that can't be serialized", async () => {
+    const createValve = (channel: ClusterChannel) =>
+      new BurstValve<{ count: bigint }, number>({
+        displayName: "Customers",
+        cluster: channel,
+        fetch: async () => {
+          await wait();
+          return { count: BigInt(1) };
+        },
+      });
+
+    const [leader, follower] = [fakeCluster.fork(), fakeCluster.fork()].map(
+      ({ channel }) => createValve(channel)
+    );
+    const leading = leader.fetch(1);
+    await wait(1);
+    const following = follower.fetch(1);
+
+    expect(await leading).toEqual({ count: BigInt(1) });
+    await expect(following).rejects.toThrow(`BigInt`);
+    expect(primary.active).toStrictEqual(0);
+  });
+
+  test("should keep different valves and keys apart", async () => {
+    const runs: string[] = [];
+    const createValve = (displayName: string, channel: ClusterChannel) =>
+      new BurstValve<number, string>({
+        displayName,
+        cluster: channel,
+        fetch: async (id) => {
+          runs.push(`${displayName}:${id}`);
+          await wait();
+          return 1;
+        },
+      });
+
+    const { channel: first } = fakeCluster.fork();
+    const { channel: second } = fakeCluster.fork();
+    await Promise.all([
+      createValve("Customers", first).fetch("a"),
+      createValve("Customers", second).fetch("b"),
+      createValve("Orders", second).fetch("a"),
+    ]);
+    expect(runs.sort()).toEqual(["Customers:a", "Customers:b", "Orders:a"]);
+  });
+
+  test("should coalesce batch subqueues across workers", async () => {
+    const runs: Array<[number, number[]]> = [];
+    const createValve = (workerId: number, channel: ClusterChannel) =>
+      new BurstValve<number, number>({
+        displayName: "Customers",
+        cluster: channel,
+        batch: async (ids) => {
+          runs.push([workerId, [...ids]]);
+          await wait();
+          return ids.map((id) => (id === 4 ? new Error(`Not Found`) : id * 2));
+        },
+      });
+
+    const { worker: worker1, channel: channel1 } = fakeCluster.fork();
+    const { worker: worker2, channel: channel2 } = fakeCluster.fork();
+    const first = createValve(worker1.id, channel1).batch([1, 2]);
+    await wait(1);
+    const second = createValve(worker2.id, channel2).batch([2, 3, 4]);
+
+    expect(await first).toEqual([2, 4]);
+    expect(await second).toEqual([4, 6, new Error(`Not Found`)]);
+    expect(runs).toEqual([
+      [1, [1, 2]],
+      [2, [3, 4]],
+    ]);
+  });
+
+  test("should promote a waiting worker when the leader dies mid fetch", async () => {
+    const runs: number[] = [];
+    const createValve = (workerId: number, channel: ClusterChannel) =>
+      new BurstValve<number, number>({
+        displayName: "Customers",
+        cluster: channel,
+        fetch: async (id) => {
+          runs.push(workerId);
+          await wait(workerId === 1 ? 100 : 10);
+          return (id as number) * 2;
+        },
+      });
+
+    const { worker: worker1, channel: channel1 } = fakeCluster.fork();
+    const { worker: worker2, channel: channel2 } = fakeCluster.fork();
+    createValve(worker1.id, channel1)
+      .fetch(1)
+      .catch(() => undefined);
+    await wait(1);
+    const follower = createValve(worker2.id, channel2).fetch(1);
+    await wait(1);
+
+    (worker1 as ClusterWorker & { kill(): void }).kill();
+    expect(await follower).toStrictEqual(2);
+    expect(runs).toEqual([1, 2]);
+
+    await wait(1);
+    expect(primary.active).toStrictEqual(0);
+  });
+
+  test("should hand the lead over when every caller of the leading worker aborts", async () => {
+    const runs: number[] = [];
+    const createValve = (workerId: number, channel: ClusterChannel) =>
+      new BurstValve<number, number>({
+        displayName: "Customers",
+        cluster: channel,
+        fetch: async (id, signal) => {
+          runs.push(workerId);
+          await new Promise((resolve, reject) => {
+            setTimeout(resolve, 10);
+            signal.addEventListener("abort", () => reject(signal.reason));
+          });
+          return (id as number) * 2;
+        },
+      });
+
+    const controller = new AbortController();
+    const { worker: worker1, channel: channel1 } = fakeCluster.fork();
+    const { worker: worker2, channel: channel2 } = fakeCluster.fork();
+    const leader = createValve(worker1.id, channel1).fetch(1, {
+      signal: controller.signal,
+    });
+    await wait(1);
+    const follower = createValve(worker2.id, channel2).fetch(1);
+    await wait(1);
+
+    controller.abort(new Error(`Aborted`));
+    await expect(leader).rejects.toThrow(`Aborted`);
+    expect(await follower).toStrictEqual(2);
+    expect(runs).toEqual([1, 2]);
+  });
+
+  test("should stop waiting on the leader when every local caller aborts", async () => {
+    const createValve = (channel: ClusterChannel) =>
+      new BurstValve<number, number>({
+        displayName: "Customers",
+        cluster: channel,
+        fetch: async (id) => {
+          await wait();
+          return (id as number) * 2;
+        },
+      });
+
+    const controller = new AbortController();
+    const { channel: channel1 } = fakeCluster.fork();
+    const { worker: worker2, channel: channel2 } = fakeCluster.fork();
+    const leader = createValve(channel1).fetch(1);
+    await wait(1);
+    const follower = createValve(channel2).fetch(1, {
+      signal: controller.signal,
+    });
+    await wait(1);
+
+    controller.abort(new Error(`Aborted`));
+    await expect(follower).rejects.toThrow(`Aborted`);
+    expect(await leader).toStrictEqual(2);
+    expect(worker2.process.listenerCount("message")).toStrictEqual(0);
+  });
+
+  test("should require a display name to coalesce across processes", () => {
+    const { channel } = fakeCluster.fork();
+    expect(
+      () =>
+        new BurstValve<number, number>({
+          cluster: channel,
+          fetch: async () => 1,
+        })
+    ).toThrow(
+      `Display name is required to coalesce across processes, valves are matched by name`
+    );
+    expect(
+      () =>
+        new BurstValve<number, number>({
+          threads: true,
+          fetch: async () => 1,
+        })
+    ).toThrow(
+      `Display name is required to coalesce across processes, valves are matched by name`
+    );
+  });
+
+  test("should fetch keys that can't be serialized locally", async () => {
+    const runs: string[] = [];
+    const { worker: worker1, channel: channel1 } = fakeCluster.fork();
+    const { worker: worker2, channel: channel2 } = fakeCluster.fork();
+    const [a, b] = [Symbol("a"), Symbol("b")];
+
+    const createValve = (workerId: number, channel: ClusterChannel) =>
+      new BurstValve<string, symbol>({
+        displayName: "Customers",
+        cluster: channel,
+        fetch: async (id) => {
+          runs.push(`${workerId}:${String(id)}`);
+          await wait();
+          return String(id);
+        },
+      });
+    expect(
+      await Promise.all([
+        createValve(worker1.id, channel1).fetch(a),
+        createValve(worker2.id, channel2).fetch(b),
+      ])
+    ).toEqual(["Symbol(a)", "Symbol(b)"]);
+    expect(runs).toEqual(["1:Symbol(a)", "2:Symbol(b)"]);
+
+    runs.length = 0;
+    const createBatchValve = (workerId: number, channel: ClusterChannel) =>
+      new BurstValve<string, symbol | number>({
+        displayName: "Orders",
+        cluster: channel,
+        batch: async (ids) => {
+          runs.push(`${workerId}:${ids.map(String).join(",")}`);
+          await wait();
+          return ids.map(String);
+        },
+      });
+    const leading = createBatchValve(worker1.id, channel1).batch([1]);
+    await wait(1);
+    expect(
+      await Promise.all([
+        leading,
+        createBatchValve(worker2.id, channel2).batch([1, a]),
+      ])
+    ).toEqual([["1"], ["1", "Symbol(a)"]]);
+    expect(runs).toEqual(["1:1", "2:Symbol(a)"]);
+  });
+
+  test("should fetch locally when the primary doesn't acknowledge claims", async () => {
+    primary.close();
+    const { worker, channel } = fakeCluster.fork({ ackTimeout: 20 });
+    const valve = new BurstValve<number, number>({
+      displayName: "Customers",
+      cluster: channel,
+      fetch: async (id) => (id as number) * 2,
+    });
+
+    const startedAt = Date.now();
+    expect(await valve.fetch(1)).toStrictEqual(2);
+    expect(Date.now() - startedAt).toBeGreaterThanOrEqual(19);
+    expect(worker.process.listenerCount("message")).toStrictEqual(0);
+  });
+
+  test("should fetch locally once the wait on the leader times out", async () => {
+    const runs: Array<[number, number[]]> = [];
+    const createValve = (
+      workerId: number,
+      channel: ClusterChannel,
+      ms: number
+    ) =>
+      new BurstValve<number, number>({
+        displayName: "Customers",
+        cluster: channel,
+        batch: async (ids) => {
+          runs.push([workerId, [...ids]]);
+          await wait(ms);
+          return ids.map((id) => id * 2);
+        },
+      });
+
+    const { worker: worker1, channel: channel1 } = fakeCluster.fork();
+    const { worker: worker2, channel: channel2 } = fakeCluster.fork({
+      waitTimeout: 20,
+    });
+    const stuck = createValve(worker1.id, channel1, 50).batch([1]);
+    await wait(1);
+
+    const startedAt = Date.now();
+    expect(await createValve(worker2.id, channel2, 1).batch([1, 2])).toEqual([
+      2, 4,
+    ]);
+    expect(Date.now() - startedAt).toBeGreaterThanOrEqual(19);
+    expect(runs).toEqual([
+      [1, [1]],
+      [2, [2]],
+      [2, [1]],
+    ]);
+    expect(await stuck).toEqual([2]);
+  });
+});
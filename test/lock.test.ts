@@ -0,0 +1,181 @@
+import {
+  BurstValve,
+  DistributedLockAdapter,
+  DistributedLockParams,
+  InMemoryLockAdapter,
+} from "../src";
+import { describeLockAdapter } from "../src/lockAdapterSuite";
+
+jest.setTimeout(250);
+
+const wait = (ms = 10) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Every connection of the in memory adapter shares the same storage
+let inMemory: InMemoryLockAdapter;
+beforeEach(() => {
+  inMemory = new InMemoryLockAdapter();
+});
+
+describeLockAdapter(
+  { describe, test, expect },
+  "InMemoryLockAdapter",
+  () => inMemory
+);
+
+describe("DistributedLock", () => {
+  const createValve = (
+    runs: string[],
+    host: string,
+    distributedLock: DistributedLockParams,
+    fetch?: (id: number) => Promise<number>
+  ) =>
+    new BurstValve<number, number>({
+      displayName: "Customers",
+      distributedLock,
+      fetch: async (id) => {
+        runs.push(host);
+        return fetch
+          ? fetch(id as number)
+          : wait().then(() => (id as number) * 2);
+      },
+    });
+
+  test("should relay published errors to the waiting hosts", async () => {
+    const runs: string[] = [];
+    const adapter = new InMemoryLockAdapter();
+    const fetch = async () => {
+      await wait();
+      throw new TypeError(`Failed Fetch`);
+    };
+
+    const results = await Promise.allSettled([
+      createValve(runs, "a", { adapter }, fetch).fetch(1),
+      createValve(runs, "b", { adapter }, fetch).fetch(1),
+    ]);
+    expect(results).toEqual([
+      { status: "rejected", reason: new Error(`Failed Fetch`) },
+      { status: "rejected", reason: new Error(`Failed Fetch`) },
+    ]);
+    expect((results[1] as PromiseRejectedResult).reason.name).toStrictEqual(
+      "TypeError"
+    );
+    expect(runs).toEqual(["a"]);
+  });
+
+  test("should fetch locally once the wait on the lock holder times out", async () => {
+    const runs: string[] = [];
+    const adapter = new InMemoryLockAdapter();
+    const distributedLock = { adapter, waitTimeout: 20 };
+
+    const stuck = createValve(runs, "a", distributedLock, () =>
+      wait(50).then(() => 0)
+    ).fetch(1);
+    await wait(1);
+
+    const startedAt = Date.now();
+    expect(await createValve(runs, "b", distributedLock).fetch(1)).toEqual(2);
+    expect(Date.now() - startedAt).toBeGreaterThanOrEqual(19);
+    expect(runs).toEqual(["a", "b"]);
+    await stuck;
+  });
+
+  test("should fetch locally when the adapter fails", async () => {
+    const runs: string[] = [];
+    const adapter: DistributedLockAdapter = {
+      acquire: async () => {
+        throw new Error(`Connection Refused`);
+      },
+      release: async () => undefined,
+      publish: async () => undefined,
+      subscribe: async () => async () => undefined,
+    };
+
+    expect(await createValve(runs, "a", { adapter }).fetch(1)).toEqual(2);
+    expect(runs).toEqual(["a"]);
+  });
+
+  test("should fetch keys that can't be serialized locally", async () => {
+    const runs: string[] = [];
+    const adapter = new InMemoryLockAdapter();
+
+    const results = await Promise.all([
+      createValve(runs, "a", { adapter }).fetch(NaN),
+      createValve(runs, "b", { adapter }).fetch(Infinity),
+    ]);
+    expect(results).toEqual([NaN, Infinity]);
+    expect(runs).toEqual(["a", "b"]);
+  });
+
+  test("should release the lock when every local caller aborts", async () => {
+    const adapter = new InMemoryLockAdapter();
+    const controller = new AbortController();
+    const valve = new BurstValve<number, number>({
+      displayName: "Customers",
+      distributedLock: { adapter },
+      fetch: (_id, signal) =>
+        new Promise((_resolve, reject) =>
+          signal.addEventListener("abort", () => reject(signal.reason))
+        ),
+    });
+
+    const fetching = valve.fetch(1, { signal: controller.signal });
+    await wait(1);
+    expect(await adapter.acquire("burst-valve:Customers:1", 1000)).toEqual(
+      false
+    );
+
+    controller.abort(new Error(`Aborted`));
+    await expect(fetching).rejects.toThrow(`Aborted`);
+    await wait(1);
+    expect(await adapter.acquire("burst-valve:Customers:1", 1000)).toEqual(
+      true
+    );
+  });
+
+  test("should coalesce batch subqueues across hosts, forwarding early writes", async () => {
+    const runs: Array<[string, number[]]> = [];
+    const adapter = new InMemoryLockAdapter();
+    let writeSecond: () => void = () => undefined;
+    const secondWrite = new Promise<void>((resolve) => (writeSecond = resolve));
+
+    const leader = new BurstValve<number, number>({
+      displayName: "Customers",
+      distributedLock: { adapter },
+      batch: async (ids, earlyWrite) => {
+        runs.push(["a", [...ids]]);
+        earlyWrite(ids[0], ids[0] * 2);
+        await secondWrite;
+        earlyWrite(ids[1], ids[1] * 2);
+      },
+    });
+    const follower = new BurstValve<number, number>({
+      displayName: "Customers",
+      distributedLock: { adapter },
+      batch: async (ids) => {
+        runs.push(["b", [...ids]]);
+        return ids.map((id) => id * 2);
+      },
+    });
+
+    const leading = leader.batch([1, 2]);
+    await wait(1);
+
+    const writes: Array<[number, number | Error]> = [];
+    const following = follower.stream([2, 3], async (id, result) => {
+      writes.push([id, result]);
+    });
+    await wait(1);
+    expect(writes).toEqual([[3, 6]]);
+
+    writeSecond();
+    await Promise.all([leading, following]);
+    expect(writes).toEqual([
+      [3, 6],
+      [2, 4],
+    ]);
+    expect(runs).toEqual([
+      ["a", [1, 2]],
+      ["b", [3]],
+    ]);
+  });
+});
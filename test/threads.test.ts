@@ -0,0 +1,328 @@
+import { Worker } from "worker_threads";
+import {
+  BurstValve,
+  CLUSTER_PROTOCOL,
+  ClusterChannel,
+  ClusterPrimary,
+  THREAD_CHANNEL_NAME,
+  ThreadProcess,
+  ThreadSource,
+} from "../src";
+
+jest.setTimeout(250);
+
+const wait = (ms = 10) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe("threads", () => {
+  let source: ThreadSource;
+  let primary: ClusterPrimary;
+  let threads: ThreadProcess[];
+
+  // Simulates separate threads with their own thread ids on the same broadcast channel
+  const createThread = (id: number) => {
+    const thread = new ThreadProcess("burst-valve:test", id);
+    threads.push(thread);
+    return new ClusterChannel(thread);
+  };
+
+  beforeEach(() => {
+    threads = [];
+    source = new ThreadSource("burst-valve:test");
+    primary = new ClusterPrimary(source);
+  });
+
+  afterEach(() => {
+    primary.close();
+    source.close();
+    threads.forEach((thread) => thread.close());
+  });
+
+  test("should only run the fetcher in one thread, cloning the result to the others", async () => {
+    const runs: number[] = [];
+    const createValve = (id: number) =>
+      new BurstValve<{ id: number; at: Date }, number>({
+        displayName: "Customers",
+        cluster: createThread(id),
+        fetch: async (key) => {
+          runs.push(id);
+          await wait();
+          return { id: key as number, at: new Date(0) };
+        },
+      });
+
+    const results = await Promise.all(
+      [1, 2, 3].map((id) => createValve(id).fetch(5))
+    );
+    expect(results).toEqual([
+      { id: 5, at: new Date(0) },
+      { id: 5, at: new Date(0) },
+      { id: 5, at: new Date(0) },
+    ]);
+    expect(results[1].at.getTime()).toStrictEqual(0);
+    expect(runs).toEqual([1]);
+  });
+
+  test("should forward early writes of the leading thread as they happen", async () => {
+    let writeSecond: () => void = () => undefined;
+    const secondWrite = new Promise<void>((resolve) => (writeSecond = resolve));
+    const followerJoined = new Promise<void>((resolve) =>
+      source.on("message", (thread) => thread.id === 2 && resolve())
+    );
+
+    const leader = new BurstValve<number, number>({
+      displayName: "Customers",
+      cluster: createThread(1),
+      batch: async (ids, earlyWrite) => {
+        await followerJoined;
+        earlyWrite(ids[0], ids[0] * 2);
+        await secondWrite;
+        earlyWrite(ids[1], ids[1] * 2);
+      },
+    });
+    const follower = new BurstValve<number, number>({
+      displayName: "Customers",
+      cluster: createThread(2),
+      batch: async () => {
+        throw new Error(`Should not run`);
+      },
+    });
+
+    const leading = leader.batch([1, 2]);
+    await wait(1);
+
+    const writes: Array<[number, number]> = [];
+    let firstWritten: () => void = () => undefined;
+    const firstWrite = new Promise<void>((resolve) => (firstWritten = resolve));
+    const following = follower.stream([1, 2], async (id, result) => {
+      writes.push([id, result as number]);
+      firstWritten();
+    });
+
+    await firstWrite;
+    expect(writes).toEqual([[1, 2]]);
+
+    writeSecond();
+    await Promise.all([leading, following]);
+    expect(writes).toEqual([
+      [1, 2],
+      [2, 4],
+    ]);
+  });
+
+  test("should hand the lead over when the leading thread exits", async () => {
+    const exiting = new BurstValve<number, number>({
+      displayName: "Customers",
+      cluster: createThread(1),
+      fetch: () => new Promise<number>(() => undefined),
+    });
+    const waiting = new BurstValve<number, number>({
+      displayName: "Customers",
+      cluster: createThread(2),
+      fetch: async (id) => (id as number) * 2,
+    });
+
+    exiting.fetch(1, { timeout: 50 }).catch(() => undefined);
+    await wait(1);
+    const result = waiting.fetch(1);
+    await wait(1);
+
+    source.emit("exit", { id: 1, send: () => true });
+    expect(await result).toStrictEqual(2);
+  });
+
+  test("should not allow cluster and thread coalescing at the same time", () => {
+    expect(
+      () =>
+        new BurstValve<number, number>({
+          cluster: true,
+          threads: true,
+          fetch: async () => 1,
+        })
+    ).toThrow(
+      `Cannot coalesce across both cluster workers and threads at the same time for Burst Valve`
+    );
+  });
+});
+
+// Tests starting real threads take longer than the default timeout allows
+describe("worker threads", () => {
+  const THREAD_TIMEOUT = 1000;
+
+  let source: ThreadSource;
+  let primary: ClusterPrimary;
+  let workers: Worker[];
+
+  /**
+   * Starts a thread claiming a key over the default broadcast channel,
+   * posting every message it receives from the primary back to the test
+   */
+  const claimInThread = (key: number) => {
+    const worker = new Worker(
+      `
+      const { BroadcastChannel, parentPort, threadId, workerData } = require("worker_threads");
+      const channel = new BroadcastChannel(workerData.name);
+      channel.onmessage = ({ data }) => data.to === threadId && parentPort.postMessage(data);
+      channel.postMessage({
+        protocol: workerData.protocol,
+        type: "acquire",
+        ack: 1,
+        namespace: "Customers",
+        claims: [{ id: 2, key: workerData.key }],
+        from: threadId,
+      });
+      `,
+      {
+        eval: true,
+        workerData: {
+          name: THREAD_CHANNEL_NAME,
+          protocol: CLUSTER_PROTOCOL,
+          key,
+        },
+      }
+    );
+    workers.push(worker);
+
+    const messages: Array<Record<string, unknown>> = [];
+    const next = () =>
+      new Promise<Record<string, unknown>>((resolve) =>
+        worker.once("message", (message) => {
+          messages.push(message);
+          resolve(message);
+        })
+      );
+    return { worker, messages, next };
+  };
+
+  beforeEach(() => {
+    workers = [];
+    source = new ThreadSource();
+    primary = new ClusterPrimary(source);
+  });
+
+  afterEach(async () => {
+    primary.close();
+    source.close();
+    await Promise.all(workers.map((worker) => worker.terminate()));
+  });
+
+  test(
+    "should relay the result of the leading valve to another thread",
+    async () => {
+      const runs: number[] = [];
+      const thread = claimInThread(1);
+      const acknowledged = thread.next();
+      const valve = new BurstValve<number, number>({
+        displayName: "Customers",
+        threads: true,
+        fetch: async (id) => {
+          runs.push(id as number);
+          await acknowledged;
+          return (id as number) * 2;
+        },
+      });
+
+      const fetching = valve.fetch(1);
+      const relayed = acknowledged.then(() => thread.next());
+      expect(await fetching).toStrictEqual(2);
+      await relayed;
+      expect(thread.messages).toEqual([
+        expect.objectContaining({ type: "ack", leaders: [false] }),
+        expect.objectContaining({ type: "result", id: 2, result: 2 }),
+      ]);
+      expect(runs).toEqual([1]);
+    },
+    THREAD_TIMEOUT
+  );
+
+  test(
+    "should only fail the other threads on results that can't be cloned",
+    async () => {
+      const thread = claimInThread(1);
+      const acknowledged = thread.next();
+      const valve = new BurstValve<
+        { id: number; format: () => string },
+        number
+      >({
+        displayName: "Customers",
+        threads: true,
+        fetch: async (id) => {
+          await acknowledged;
+          return { id: id as number, format: () => `${id}` };
+        },
+      });
+
+      const fetching = valve.fetch(1);
+      const relayed = acknowledged.then(() => thread.next());
+      expect((await fetching).format()).toStrictEqual("1");
+      expect(await relayed).toEqual(
+        expect.objectContaining({
+          type: "error",
+          id: 2,
+          error: expect.objectContaining({ name: "DataCloneError" }),
+        })
+      );
+    },
+    THREAD_TIMEOUT
+  );
+
+  test(
+    "should hand the lead over when a watched leading thread exits",
+    async () => {
+      const thread = claimInThread(1);
+      source.watch(thread.worker);
+      expect(await thread.next()).toEqual(
+        expect.objectContaining({ type: "ack", leaders: [true] })
+      );
+
+      const valve = new BurstValve<number, number>({
+        displayName: "Customers",
+        threads: true,
+        fetch: async (id) => (id as number) * 2,
+      });
+      const fetching = valve.fetch(1);
+      await wait(1);
+
+      await thread.worker.terminate();
+      expect(await fetching).toStrictEqual(2);
+
+      await wait(1);
+      expect(primary.active).toStrictEqual(0);
+    },
+    THREAD_TIMEOUT
+  );
+
+  test(
+    "should fetch locally once the wait on an unwatched leading thread times out",
+    async () => {
+      const thread = claimInThread(1);
+      expect(await thread.next()).toEqual(
+        expect.objectContaining({ type: "ack", leaders: [true] })
+      );
+
+      const valve = new BurstValve<number, number>({
+        displayName: "Customers",
+        threads: { waitTimeout: 20 },
+        fetch: async (id) => (id as number) * 2,
+      });
+      const fetching = valve.fetch(1);
+      await wait(1);
+
+      await thread.worker.terminate();
+      expect(await fetching).toStrictEqual(2);
+    },
+    THREAD_TIMEOUT
+  );
+
+  test("should fetch locally when no thread runs a primary", async () => {
+    primary.close();
+    const valve = new BurstValve<number, number>({
+      displayName: "Customers",
+      threads: { ackTimeout: 20 },
+      fetch: async (id) => (id as number) * 2,
+    });
+
+    const startedAt = Date.now();
+    expect(await valve.fetch(1)).toStrictEqual(2);
+    expect(Date.now() - startedAt).toBeGreaterThanOrEqual(19);
+  });
+});